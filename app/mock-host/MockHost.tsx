@@ -0,0 +1,117 @@
+'use client';
+
+/**
+ * MOCK FISHTANK HOST
+ *
+ * Local stand-in for the fishtank parent frame. Embeds the game in an iframe,
+ * sends host commands and logs every message the game posts back.
+ *
+ * Visit http://localhost:3000/mock-host while running `npm run dev`.
+ */
+
+import { useEffect, useRef, useState } from 'react';
+import { GameMessage, HostCommand, PROTOCOL_VERSION } from '@/lib/types';
+import styles from './MockHost.module.css';
+
+interface LogEntry {
+  id: number;
+  time: string;
+  direction: 'in' | 'out';
+  message: GameMessage | HostCommand;
+}
+
+/** A host command before the mock host assigns its id */
+type WithoutId<T> = T extends unknown ? Omit<T, 'id'> : never;
+type CommandWithoutId = WithoutId<HostCommand>;
+
+export default function MockHost() {
+  const frameRef = useRef<HTMLIFrameElement>(null);
+  const commandId = useRef(0);
+  const logId = useRef(0);
+  const [log, setLog] = useState<LogEntry[]>([]);
+  const [protocolVersion, setProtocolVersion] = useState<number | null>(null);
+  const [muted, setMuted] = useState(false);
+  const [volume, setVolume] = useState(1);
+
+  const addLog = (direction: LogEntry['direction'], message: LogEntry['message']) => {
+    setLog(prev => [
+      { id: logId.current++, time: new Date().toLocaleTimeString(), direction, message },
+      ...prev,
+    ].slice(0, 100));
+  };
+
+  // Messages from the game
+  useEffect(() => {
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== frameRef.current?.contentWindow) return;
+      const message = e.data as GameMessage;
+      if (message.type === 'GAME_READY') setProtocolVersion(message.protocolVersion);
+      addLog('in', message);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  const send = (command: CommandWithoutId) => {
+    const message = { ...command, id: `cmd_${++commandId.current}` } as HostCommand;
+    frameRef.current?.contentWindow?.postMessage(message, window.location.origin);
+    addLog('out', message);
+  };
+
+  return (
+    <div className={styles.page}>
+      <div className={styles.frame}>
+        <iframe ref={frameRef} src="/" title="Game" />
+      </div>
+
+      <div className={styles.panel}>
+        <h2>Mock Host</h2>
+        <p className={styles.status}>
+          Protocol: {protocolVersion === null ? 'waiting for GAME_READY…' : `v${protocolVersion}`}
+          {protocolVersion !== null && protocolVersion !== PROTOCOL_VERSION && (
+            <span className={styles.error}> (host expects v{PROTOCOL_VERSION})</span>
+          )}
+        </p>
+
+        <div className={styles.commands}>
+          <button onClick={() => send({ type: 'START' })}>Start</button>
+          <button onClick={() => send({ type: 'PAUSE' })}>Pause</button>
+          <button onClick={() => send({ type: 'RESUME' })}>Resume</button>
+          <button onClick={() => send({ type: 'RESET' })}>Reset</button>
+          <button onClick={() => send({ type: 'REQUEST_STATE' })}>Request State</button>
+          <button
+            onClick={() => {
+              send({ type: 'MUTE', muted: !muted });
+              setMuted(!muted);
+            }}
+          >
+            {muted ? 'Unmute' : 'Mute'}
+          </button>
+        </div>
+
+        <label className={styles.volume}>
+          Volume {Math.round(volume * 100)}%
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={volume}
+            onChange={e => setVolume(Number(e.target.value))}
+            onPointerUp={() => send({ type: 'SET_VOLUME', volume })}
+          />
+        </label>
+
+        <ol className={styles.log}>
+          {log.map(entry => (
+            <li key={entry.id} className={entry.direction === 'in' ? styles.in : styles.out}>
+              <span className={styles.time}>{entry.time} {entry.direction === 'in' ? '←' : '→'}</span>
+              <code>{JSON.stringify(entry.message)}</code>
+            </li>
+          ))}
+        </ol>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,11 @@
+import { notFound } from 'next/navigation';
+import MockHost from './MockHost';
+
+/**
+ * Mock host route - development only, so game builds don't publish a page
+ * that embeds the game and sends it commands
+ */
+export default function MockHostPage() {
+  if (process.env.NODE_ENV !== 'development') notFound();
+  return <MockHost />;
+}
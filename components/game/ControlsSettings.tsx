@@ -0,0 +1,270 @@
+import { useState, useEffect, useMemo, useRef } from 'react';
+import {
+  ActionMap,
+  BindingList,
+  InputBinding,
+  bindingListsOf,
+  bindingsEqual,
+  describeBinding,
+} from '@/lib/input';
+import { getGamepads } from '@/lib/gamepad';
+import { BindingChange, InputBindings } from '@/lib/hooks/useInputBindings';
+import styles from './ControlsSettings.module.css';
+
+interface ControlsSettingsProps {
+  bindings: InputBindings;
+  onClose: () => void;
+}
+
+/** A binding slot being (re)bound; index === list length appends */
+interface Capture {
+  action: string;
+  list: BindingList;
+  index: number;
+}
+
+/** A captured binding that's already in use elsewhere */
+interface PendingConflict extends Capture {
+  binding: InputBinding;
+  uses: { action: string; list: BindingList }[];
+}
+
+type LayoutMap = { get: (code: string) => string | undefined };
+
+/** Printed key labels for the player's layout (Chromium only) */
+function useKeyboardLayout(): LayoutMap | undefined {
+  const [layout, setLayout] = useState<LayoutMap>();
+  useEffect(() => {
+    const keyboard = (navigator as Navigator & { keyboard?: { getLayoutMap?: () => Promise<LayoutMap> } }).keyboard;
+    keyboard?.getLayoutMap?.().then(setLayout).catch(() => {
+      // Not allowed in cross-origin iframes - fall back to US names
+    });
+  }, []);
+  return layout;
+}
+
+/** Settings label of one side of an action */
+function rowLabel(name: string, definition: ActionMap[string], list: BindingList): string {
+  const label = definition.label ?? name;
+  if (list === 'negative') return definition.negativeLabel ?? `${label} −`;
+  if (list === 'positive') return definition.positiveLabel ?? `${label} +`;
+  return label;
+}
+
+/**
+ * Wait for the next key, mouse button or gamepad control
+ * Escape cancels. Returns a cleanup function.
+ */
+function listenForBinding(onBinding: (binding: InputBinding) => void, onCancel: () => void): () => void {
+  const handleKey = (e: KeyboardEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    if (e.code === 'Escape') onCancel();
+    else onBinding(e.code);
+  };
+  const handleMouse = (e: MouseEvent) => {
+    // Other buttons of the screen keep working; the capturing one takes the press
+    if (e.target instanceof Element && e.target.closest('button:not([data-capturing])')) return;
+    e.preventDefault();
+    // Swallow the click that follows so it doesn't start another capture
+    if (e.button === 0) window.addEventListener('click', swallowClick, { capture: true, once: true });
+    onBinding({ mouse: e.button });
+  };
+  const swallowClick = (e: MouseEvent) => e.stopPropagation();
+  const handleContextMenu = (e: MouseEvent) => e.preventDefault();
+
+  // Gamepads have no events: poll for controls that weren't held when capture began
+  const held = new Set<string>();
+  const controls = () => {
+    const active: { id: string; binding: InputBinding }[] = [];
+    getGamepads().forEach(pad => {
+      if (!pad) return;
+      pad.buttons.forEach((button, i) => {
+        if (button.pressed) active.push({ id: `b${i}`, binding: { gamepad: i } });
+      });
+      pad.axes.forEach((value, i) => {
+        if (Math.abs(value) >= 0.5) {
+          const direction = value > 0 ? 1 : -1;
+          active.push({ id: `a${i}${direction}`, binding: { gamepadAxis: i, direction } });
+        }
+      });
+    });
+    return active;
+  };
+  controls().forEach(c => held.add(c.id));
+  let frame = 0;
+  const poll = () => {
+    const pressed = controls().find(c => !held.has(c.id));
+    if (pressed) onBinding(pressed.binding);
+    else frame = requestAnimationFrame(poll);
+  };
+  frame = requestAnimationFrame(poll);
+
+  // A focused button would also react to Space/Enter
+  if (document.activeElement instanceof HTMLElement) document.activeElement.blur();
+  window.addEventListener('keydown', handleKey, true);
+  window.addEventListener('mousedown', handleMouse, true);
+  window.addEventListener('contextmenu', handleContextMenu, true);
+  return () => {
+    cancelAnimationFrame(frame);
+    window.removeEventListener('keydown', handleKey, true);
+    window.removeEventListener('mousedown', handleMouse, true);
+    window.removeEventListener('contextmenu', handleContextMenu, true);
+  };
+}
+
+/**
+ * Controls settings screen
+ * Lists every action with its bindings; click a binding (or +) and press a
+ * key, mouse button or gamepad control to rebind it. Changes are saved per
+ * game by useInputBindings.
+ *
+ * Usage:
+ * ```
+ * const bindings = useInputBindings(ACTIONS);
+ *
+ * {showControls && <ControlsSettings bindings={bindings} onClose={() => setShowControls(false)} />}
+ * ```
+ */
+export default function ControlsSettings({ bindings, onClose }: ControlsSettingsProps) {
+  const { actions, conflicts } = bindings;
+  const [capture, setCapture] = useState<Capture | null>(null);
+  const [pending, setPending] = useState<PendingConflict | null>(null);
+  const layout = useKeyboardLayout();
+
+  const describe = (binding: InputBinding) => describeBinding(binding, layout);
+
+  const rows = useMemo(() => Object.entries(actions).flatMap(([name, definition]) =>
+    bindingListsOf(definition).map(list => ({
+      action: name,
+      list,
+      label: rowLabel(name, definition, list),
+      bindings: definition[list] ?? [],
+    }))
+  ), [actions]);
+
+  // Replace slot `index` (or append), dropping duplicates within the list
+  const withBinding = (current: InputBinding[], index: number, binding: InputBinding) => {
+    const next = [...current];
+    next[index] = binding;
+    return next.filter((b, i) => i === index || !bindingsEqual(b, binding));
+  };
+
+  const assign = (target: Capture, binding: InputBinding, removeFrom: PendingConflict['uses'] = []) => {
+    const changes: BindingChange[] = removeFrom.map(use => ({
+      action: use.action,
+      list: use.list,
+      bindings: (actions[use.action][use.list] ?? []).filter(b => !bindingsEqual(b, binding)),
+    }));
+    const current = actions[target.action][target.list] ?? [];
+    changes.push({ action: target.action, list: target.list, bindings: withBinding(current, target.index, binding) });
+    bindings.setMany(changes);
+  };
+
+  // Where a captured binding is already used, other than the slot's own list
+  const usesOf = (target: Capture, binding: InputBinding) => rows
+    .filter(row => !(row.action === target.action && row.list === target.list))
+    .filter(row => row.bindings.some(b => bindingsEqual(b, binding)))
+    .map(({ action, list }) => ({ action, list }));
+
+  // The capture listener outlives renders; read the latest helpers through a ref
+  const latest = useRef({ assign, usesOf });
+  latest.current = { assign, usesOf };
+
+  useEffect(() => {
+    if (!capture) return;
+    return listenForBinding(
+      binding => {
+        setCapture(null);
+        const uses = latest.current.usesOf(capture, binding);
+        if (uses.length > 0) setPending({ ...capture, binding, uses });
+        else latest.current.assign(capture, binding);
+      },
+      () => setCapture(null)
+    );
+  }, [capture]);
+
+  const isConflicting = (binding: InputBinding) => conflicts.some(c => bindingsEqual(c.binding, binding));
+  const labelOf = (use: { action: string; list: BindingList }) => rows.find(r => r.action === use.action && r.list === use.list)?.label ?? use.action;
+
+  return (
+    <div className={styles.settings}>
+      <h2>Controls</h2>
+
+      <table className={styles.table}>
+        <tbody>
+          {rows.map(row => (
+            <tr key={`${row.action}-${row.list}`}>
+              <td className={styles.label}>{row.label}</td>
+              <td className={styles.bindings}>
+                {row.bindings.map((binding, index) => {
+                  const capturing = capture?.action === row.action && capture.list === row.list && capture.index === index;
+                  return (
+                    <span key={index} className={styles.binding}>
+                      <button
+                        className={`${styles.chip} ${capturing ? styles.capturing : ''} ${isConflicting(binding) ? styles.conflict : ''}`}
+                        onClick={() => setCapture({ action: row.action, list: row.list, index })}
+                        data-capturing={capturing || undefined}
+                        title="Click, then press a new key or button"
+                      >
+                        {capturing ? 'Press…' : describe(binding)}
+                      </button>
+                      <button
+                        className={styles.remove}
+                        aria-label={`Remove ${describe(binding)}`}
+                        onClick={() => bindings.setBindings(row.action, row.list, row.bindings.filter((_, i) => i !== index))}
+                      >
+                        ×
+                      </button>
+                    </span>
+                  );
+                })}
+                {(() => {
+                  const capturing = capture?.action === row.action && capture.list === row.list && capture.index === row.bindings.length;
+                  return (
+                    <button
+                      className={`${styles.chip} ${styles.add} ${capturing ? styles.capturing : ''}`}
+                      onClick={() => setCapture({ action: row.action, list: row.list, index: row.bindings.length })}
+                      data-capturing={capturing || undefined}
+                      aria-label={`Add binding for ${row.label}`}
+                    >
+                      {capturing ? 'Press…' : '+'}
+                    </button>
+                  );
+                })()}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      {capture && (
+        <p className={styles.hint}>Press a key or gamepad button, or click the highlighted slot • Esc to cancel</p>
+      )}
+
+      {pending && (
+        <div className={styles.prompt}>
+          <p>
+            {describe(pending.binding)} is already used by {pending.uses.map(labelOf).join(', ')}.
+          </p>
+          <div className={styles.actions}>
+            <button onClick={() => { assign(pending, pending.binding, pending.uses); setPending(null); }}>Replace</button>
+            <button onClick={() => { assign(pending, pending.binding); setPending(null); }}>Keep both</button>
+            <button onClick={() => setPending(null)}>Cancel</button>
+          </div>
+        </div>
+      )}
+
+      {!pending && conflicts.length > 0 && (
+        <p className={styles.warning}>
+          Highlighted controls are shared by more than one action.
+        </p>
+      )}
+
+      <div className={styles.actions}>
+        <button onClick={bindings.resetAll} disabled={!bindings.isCustomized}>Reset to defaults</button>
+        <button onClick={onClose}>Done</button>
+      </div>
+    </div>
+  );
+}
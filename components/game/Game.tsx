@@ -8,12 +8,17 @@
  * Available hooks:
  * - useGameState(): Manages game lifecycle (play, pause, reset, end)
  * - useGameLoop(callback, active): Runs at 60fps with delta time
+ * - useInputActions(actions): Keyboard/mouse/touch/gamepad input as named actions
  * - useKeyboard(): Tracks keyboard input
  * - useMouse(ref): Tracks mouse/touch input
  * - useCanvas(config): Provides canvas utilities
+ * - useAssets(manifest): Preload images, sprites, audio, fonts and JSON
  * - useParticles(): Particle effects (explosions, trails, sparkles)
  * - useScreenShake(): Screen shake for impacts
+ * - useRenderer(options): Background, world, effects and HUD layers
  * - useSynthSound(): Synthesized sound effects (no audio files needed)
+ * - useLeaderboard(): Local top-10 scores with initials entry
+ * - useAchievements(defs): Lifetime stats, unlocks and toasts
  *
  * Available utilities (from lib/utils.ts):
  * - Collision: rectsCollide, circlesCollide, pointInRect, entitiesCollide
@@ -26,19 +31,28 @@
  * - brick-breaker.tsx: Mouse-controlled paddle game
  */
 
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useState, useEffect } from 'react';
 import { useGameState } from '@/lib/hooks/useGameState';
 import { useGameLoop } from '@/lib/hooks/useGameLoop';
-import { useKeyboard } from '@/lib/hooks/useKeyboard';
+import { useInputActions } from '@/lib/hooks/useInputActions';
+import { useInputBindings } from '@/lib/hooks/useInputBindings';
 import { useMouse } from '@/lib/hooks/useMouse';
 import { useCanvas } from '@/lib/hooks/useCanvas';
+import { useAssets } from '@/lib/hooks/useAssets';
 import { useParticles } from '@/lib/hooks/useParticles';
 import { useScreenShake } from '@/lib/hooks/useScreenShake';
+import { useRenderer } from '@/lib/hooks/useRenderer';
 import { useSynthSound } from '@/lib/hooks/useSound';
+import { useLeaderboard } from '@/lib/hooks/useLeaderboard';
+import { useAchievements, AchievementDefinition } from '@/lib/hooks/useAchievements';
 import { GameState } from '@/lib/types';
+import { ActionMap, GamepadAxis, GamepadButton } from '@/lib/input';
+import { AssetManifest } from '@/lib/assets';
 import { clamp, circlesCollide, randomInt } from '@/lib/utils';
 import GameWindow from './GameWindow';
 import GameControls from './GameControls';
+import Leaderboard from './Leaderboard';
+import ControlsSettings from './ControlsSettings';
 import styles from './Game.module.css';
 
 // =============================================================================
@@ -55,6 +69,37 @@ const CONFIG = {
   maxTargets: 12,
 };
 
+// Input actions - query input.actions.moveX.value etc. in the game loop
+const ACTIONS = {
+  moveX: {
+    label: 'Move',
+    negativeLabel: 'Move left',
+    positiveLabel: 'Move right',
+    negative: ['ArrowLeft', 'KeyA', { gamepad: GamepadButton.DpadLeft }],
+    positive: ['ArrowRight', 'KeyD', { gamepad: GamepadButton.DpadRight }],
+    gamepadAxis: GamepadAxis.LeftX,
+  },
+  moveY: {
+    label: 'Move',
+    negativeLabel: 'Move up',
+    positiveLabel: 'Move down',
+    negative: ['ArrowUp', 'KeyW', { gamepad: GamepadButton.DpadUp }],
+    positive: ['ArrowDown', 'KeyS', { gamepad: GamepadButton.DpadDown }],
+    gamepadAxis: GamepadAxis.LeftY,
+  },
+} satisfies ActionMap;
+
+// Files to load before the game can start (put them in public/assets/)
+// e.g. sprites: { player: { src: '/assets/player.png', layout: { frameWidth: 32, frameHeight: 32 } } }
+const ASSETS: AssetManifest = {};
+
+const ACHIEVEMENTS: AchievementDefinition[] = [
+  { id: 'first-orb', name: 'First Catch', description: 'Collect an orb', condition: { stat: 'orbs', atLeast: 1 } },
+  { id: 'orb-streak', name: 'On a Roll', description: 'Collect 25 orbs in one game', condition: { stat: 'orbs', atLeast: 25, scope: 'run' } },
+  { id: 'orb-hoarder', name: 'Orb Hoarder', description: 'Collect 250 orbs in total', condition: { stat: 'orbs', atLeast: 250 } },
+  { id: 'regular', name: 'Regular', description: 'Play 10 games', condition: { stat: 'gamesPlayed', atLeast: 10 } },
+];
+
 // =============================================================================
 // GAME STATE TYPES
 // =============================================================================
@@ -77,6 +122,9 @@ interface PlayerState {
 // =============================================================================
 
 export default function Game() {
+  // Preloaded assets (the game window shows progress until they're ready)
+  const { loading } = useAssets(ASSETS);
+
   // Game lifecycle management
   const {
     state,
@@ -90,10 +138,33 @@ export default function Game() {
     end,
     addScore,
     isPlaying,
-  } = useGameState();
-
-  // Input handling
-  const { isPressed } = useKeyboard();
+    isPaused,
+    muted,
+    volume,
+  } = useGameState({
+    // Runs for the Start button and for host START commands
+    onStart: () => resetGameState(),
+    // The host hears GAME_READY once loading finishes
+    ready: loading.ready,
+  });
+
+  // Local top-10 (shown on the game over screen)
+  const leaderboard = useLeaderboard();
+  const [leaderboardRank, setLeaderboardRank] = useState<number | null>(null);
+  const [initialsSubmitted, setInitialsSubmitted] = useState(false);
+
+  // Lifetime stats and unlocks (toasts are drawn over the canvas)
+  const achievements = useAchievements(ACHIEVEMENTS);
+
+  // Input handling (players can rebind ACTIONS from the Controls screen)
+  const bindings = useInputBindings(ACTIONS);
+  const input = useInputActions(bindings.actions);
+  const [showControls, setShowControls] = useState(false);
+
+  const openControls = useCallback(() => {
+    if (isPlaying) pause();
+    setShowControls(true);
+  }, [isPlaying, pause]);
 
   // Canvas setup
   const {
@@ -106,6 +177,7 @@ export default function Game() {
     drawCircle,
     drawText,
     ctx,
+    camera,
   } = useCanvas(CONFIG);
 
   // Mouse/touch input (relative to canvas)
@@ -115,8 +187,12 @@ export default function Game() {
   const particles = useParticles();
   const shake = useScreenShake();
 
+  // Render layers: world and effects shake, the HUD stays put
+  const renderer = useRenderer({ width, height, camera, shake: shake.apply });
+  useEffect(() => renderer.add('effects', particles.render), [renderer, particles.render]);
+
   // Sound effects (synthesized - no audio files needed!)
-  const sound = useSynthSound();
+  const sound = useSynthSound({ suspended: isPaused, muted, volume });
 
   // Mutable game state (useRef to avoid re-renders during game loop)
   const player = useRef<PlayerState>({ x: width / 2, y: height / 2 });
@@ -148,12 +224,11 @@ export default function Game() {
     lastSpawn.current = 0;
     targetIdCounter.current = 0;
     particles.clear();
-  }, [width, height, particles]);
-
-  const handlePlay = useCallback(() => {
-    resetGameState();
-    play();
-  }, [resetGameState, play]);
+    setLeaderboardRank(null);
+    setInitialsSubmitted(false);
+    achievements.startRun();
+    achievements.increment('gamesPlayed');
+  }, [width, height, particles, achievements]);
 
   // =========================================================================
   // GAME LOOP
@@ -162,20 +237,11 @@ export default function Game() {
   useGameLoop((deltaTime) => {
     // --- UPDATE PHASE ---
 
-    // Player movement (keyboard)
+    // Player movement (keyboard/gamepad)
+    const { moveX, moveY } = input.actions;
     const speed = CONFIG.playerSpeed * (deltaTime / 1000);
-    if (isPressed('ArrowLeft') || isPressed('KeyA')) {
-      player.current.x -= speed;
-    }
-    if (isPressed('ArrowRight') || isPressed('KeyD')) {
-      player.current.x += speed;
-    }
-    if (isPressed('ArrowUp') || isPressed('KeyW')) {
-      player.current.y -= speed;
-    }
-    if (isPressed('ArrowDown') || isPressed('KeyS')) {
-      player.current.y += speed;
-    }
+    player.current.x += moveX.value * speed;
+    player.current.y += moveY.value * speed;
 
     // Player movement (mouse/touch)
     if (mouse.isDown) {
@@ -193,7 +259,7 @@ export default function Game() {
     player.current.y = clamp(player.current.y, CONFIG.playerSize, height - CONFIG.playerSize);
 
     // Player trail particles
-    if (isPlaying && (isPressed('ArrowLeft') || isPressed('ArrowRight') || isPressed('ArrowUp') || isPressed('ArrowDown') || isPressed('KeyW') || isPressed('KeyA') || isPressed('KeyS') || isPressed('KeyD') || mouse.isDown)) {
+    if (isPlaying && (moveX.value !== 0 || moveY.value !== 0 || mouse.isDown)) {
       particles.trail(player.current.x, player.current.y, {
         colors: ['#00d4ff', '#ffffff'],
         gravity: 0,
@@ -217,6 +283,7 @@ export default function Game() {
       );
       if (hit) {
         addScore(10);
+        achievements.increment('orbs');
         sound.coin();
         shake.shakeSmall();
         particles.explode(target.x, target.y, {
@@ -231,56 +298,54 @@ export default function Game() {
     // Update effects
     particles.update(deltaTime);
     shake.update(deltaTime);
+    achievements.update(deltaTime);
 
     // --- RENDER PHASE ---
     const c = ctx;
     if (!c) return;
 
-    c.save();
-    shake.apply(c);
-
-    // Clear canvas
-    clear('#0a0a0f');
-
     // Draw targets with glow effect
-    for (const target of targets.current) {
-      // Glow
-      c.shadowColor = target.color;
-      c.shadowBlur = 15;
-      drawCircle(target.x, target.y, target.radius, target.color);
-      c.shadowBlur = 0;
-    }
-
-    // Draw particles
-    particles.render(c);
-
-    // Draw player with glow
-    c.shadowColor = '#00d4ff';
-    c.shadowBlur = 20;
-    drawCircle(player.current.x, player.current.y, CONFIG.playerSize, '#ffffff');
-    c.shadowBlur = 0;
+    renderer.draw('world', c => {
+      for (const target of targets.current) {
+        c.shadowColor = target.color;
+        c.shadowBlur = 15;
+        drawCircle(target.x, target.y, target.radius, target.color);
+      }
+    });
 
-    c.restore();
+    // Draw player with glow (above the targets)
+    renderer.draw('world', c => {
+      c.shadowColor = '#00d4ff';
+      c.shadowBlur = 20;
+      drawCircle(player.current.x, player.current.y, CONFIG.playerSize, '#ffffff');
+    }, 1);
+
+    // Draw HUD (the hud layer ignores camera and shake)
+    renderer.draw('hud', c => {
+      drawText(`Score: ${score}`, 20, 25, {
+        color: '#00d4ff',
+        font: 'bold 24px system-ui',
+      });
 
-    // Draw HUD (outside shake transform)
-    drawText(`Score: ${score}`, 20, 25, {
-      color: '#00d4ff',
-      font: 'bold 24px system-ui',
-    });
+      if (highScore > 0) {
+        drawText(`Best: ${highScore}`, 20, 55, {
+          color: '#8b8b9e',
+          font: '16px system-ui',
+        });
+      }
 
-    if (highScore > 0) {
-      drawText(`Best: ${highScore}`, 20, 55, {
+      drawText('Arrow keys / WASD to move • Click/tap to move toward pointer', width / 2, height - 20, {
         color: '#8b8b9e',
-        font: '16px system-ui',
+        font: '14px system-ui',
+        align: 'center',
       });
-    }
 
-    drawText('Arrow keys / WASD to move • Click/tap to move toward pointer', width / 2, height - 20, {
-      color: '#8b8b9e',
-      font: '14px system-ui',
-      align: 'center',
+      achievements.render(c, { width });
     });
 
+    // Clear canvas, then draw every layer in order
+    clear('#0a0a0f');
+    renderer.render(c);
   }, isPlaying);
 
   // =========================================================================
@@ -289,12 +354,12 @@ export default function Game() {
 
   return (
     <div className={styles.container}>
-      <GameWindow>
+      <GameWindow loading={loading}>
         {state === GameState.IDLE && (
           <div className={styles.overlay}>
             <h2>If you build it, they will come</h2>
             <p className={styles.subtitle}>Collect the glowing orbs!</p>
-            <button onClick={handlePlay}>Start Game</button>
+            <button onClick={play}>Start Game</button>
           </div>
         )}
 
@@ -314,7 +379,24 @@ export default function Game() {
             {result.highScore !== undefined && result.highScore > (result.score ?? 0) && (
               <p className={styles.highScore}>Best: {result.highScore}</p>
             )}
-            <button onClick={handlePlay}>Play Again</button>
+            <Leaderboard
+              entries={leaderboard.entries}
+              highlightRank={leaderboardRank}
+              defaultInitials={leaderboard.lastInitials}
+              onSubmitInitials={!initialsSubmitted && leaderboard.qualifies(result.score)
+                ? (initials) => {
+                    setLeaderboardRank(leaderboard.submit(initials, result));
+                    setInitialsSubmitted(true);
+                  }
+                : undefined}
+            />
+            <button onClick={play}>Play Again</button>
+          </div>
+        )}
+
+        {showControls && (
+          <div className={styles.overlay}>
+            <ControlsSettings bindings={bindings} onClose={() => setShowControls(false)} />
           </div>
         )}
 
@@ -334,6 +416,7 @@ export default function Game() {
         onPause={pause}
         onResume={resume}
         onReset={reset}
+        onOpenControls={openControls}
       />
     </div>
   );
@@ -1,14 +1,16 @@
-import { GameState } from '@/lib/types';
+import { GameState, GameStateId } from '@/lib/types';
 import styles from './GameControls.module.css';
 
 interface GameControlsProps {
-  state: GameState;
+  state: GameStateId;
   onPause: () => void;
   onResume: () => void;
   onReset: () => void;
+  /** Show a Controls button that opens the key-binding settings */
+  onOpenControls?: () => void;
 }
 
-export default function GameControls({ state, onPause, onResume, onReset }: GameControlsProps) {
+export default function GameControls({ state, onPause, onResume, onReset, onOpenControls }: GameControlsProps) {
   return (
     <div className={styles.controls}>
       {state === GameState.PLAYING && (
@@ -20,6 +22,9 @@ export default function GameControls({ state, onPause, onResume, onReset }: Game
       {state !== GameState.IDLE && (
         <button onClick={onReset}>Reset</button>
       )}
+      {onOpenControls && (
+        <button onClick={onOpenControls}>Controls</button>
+      )}
     </div>
   );
 }
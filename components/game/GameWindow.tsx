@@ -1,13 +1,44 @@
+import { AssetLoadState } from '@/lib/hooks/useAssets';
 import styles from './GameWindow.module.css';
 
 interface GameWindowProps {
   children: React.ReactNode;
+  /** Asset loading state from useAssets - shows a loading screen until ready */
+  loading?: AssetLoadState;
 }
 
-export default function GameWindow({ children }: GameWindowProps) {
+export default function GameWindow({ children, loading }: GameWindowProps) {
+  // Finished with errors the player hasn't retried or played past yet
+  const failed = loading?.finished && !loading.ready;
+
   return (
     <div className={styles.window}>
       {children}
+
+      {loading && !loading.finished && (
+        <div className={styles.loading} role="progressbar" aria-valuemin={0} aria-valuemax={100} aria-valuenow={Math.round(loading.progress * 100)}>
+          <p>Loading…</p>
+          <div className={styles.bar}>
+            <div className={styles.fill} style={{ width: `${loading.progress * 100}%` }} />
+          </div>
+          <p className={styles.count}>{loading.loaded} / {loading.total}</p>
+        </div>
+      )}
+
+      {loading && failed && (
+        <div className={styles.loading} role="alert">
+          <p>Some files failed to load</p>
+          <ul className={styles.errors}>
+            {loading.errors.map(error => (
+              <li key={`${error.type}:${error.name}`}>{error.name} ({error.src})</li>
+            ))}
+          </ul>
+          <div className={styles.actions}>
+            <button onClick={loading.retry}>Retry</button>
+            <button onClick={loading.dismissErrors}>Play anyway</button>
+          </div>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,128 @@
+import { useState, useEffect, useCallback } from 'react';
+import { LeaderboardEntry } from '@/lib/types';
+import styles from './Leaderboard.module.css';
+
+const CHARACTERS = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789';
+
+interface LeaderboardProps {
+  entries: LeaderboardEntry[];
+  /** 1-based rank to highlight, e.g. the run just submitted */
+  highlightRank?: number | null;
+  /** Show arcade initials entry; called with the chosen initials */
+  onSubmitInitials?: (initials: string) => void;
+  /** Initials to start the entry with (e.g. leaderboard.lastInitials) */
+  defaultInitials?: string;
+}
+
+interface InitialsEntryProps {
+  defaultInitials: string;
+  onSubmit: (initials: string) => void;
+}
+
+/** Pad/trim initials to exactly three known characters */
+function toSlots(initials: string): string[] {
+  const slots = initials.toUpperCase().split('').filter(c => CHARACTERS.includes(c)).slice(0, 3);
+  while (slots.length < 3) slots.push('A');
+  return slots;
+}
+
+/**
+ * Arcade-style initials entry
+ * Arrow keys (or the buttons) change letters, typing fills slots, Enter submits.
+ */
+function InitialsEntry({ defaultInitials, onSubmit }: InitialsEntryProps) {
+  const [slots, setSlots] = useState(() => toSlots(defaultInitials));
+  const [active, setActive] = useState(0);
+
+  const cycle = useCallback((index: number, step: number) => {
+    setSlots(prev => {
+      const next = [...prev];
+      const current = CHARACTERS.indexOf(next[index]);
+      next[index] = CHARACTERS[(current + step + CHARACTERS.length) % CHARACTERS.length];
+      return next;
+    });
+  }, []);
+
+  useEffect(() => {
+    const handleKey = (e: KeyboardEvent) => {
+      const key = e.key.toUpperCase();
+      if (e.key === 'ArrowUp') cycle(active, 1);
+      else if (e.key === 'ArrowDown') cycle(active, -1);
+      else if (e.key === 'ArrowLeft' || e.key === 'Backspace') setActive(i => Math.max(0, i - 1));
+      else if (e.key === 'ArrowRight') setActive(i => Math.min(2, i + 1));
+      else if (e.key === 'Enter') onSubmit(slots.join(''));
+      else if (key.length === 1 && CHARACTERS.includes(key)) {
+        setSlots(prev => prev.map((c, i) => (i === active ? key : c)));
+        setActive(i => Math.min(2, i + 1));
+      } else return;
+      e.preventDefault();
+    };
+
+    window.addEventListener('keydown', handleKey);
+    return () => window.removeEventListener('keydown', handleKey);
+  }, [active, slots, cycle, onSubmit]);
+
+  return (
+    <div className={styles.entry}>
+      <p className={styles.prompt}>New high score! Enter your initials</p>
+      <div className={styles.slots}>
+        {slots.map((char, i) => (
+          <div key={i} className={`${styles.slot} ${i === active ? styles.activeSlot : ''}`}>
+            <button aria-label="Next letter" onClick={() => { setActive(i); cycle(i, 1); }}>▲</button>
+            <span onClick={() => setActive(i)}>{char}</span>
+            <button aria-label="Previous letter" onClick={() => { setActive(i); cycle(i, -1); }}>▼</button>
+          </div>
+        ))}
+      </div>
+      <button onClick={() => onSubmit(slots.join(''))}>Submit</button>
+    </div>
+  );
+}
+
+/**
+ * Leaderboard table with optional initials entry
+ *
+ * Usage:
+ * ```
+ * const leaderboard = useLeaderboard();
+ *
+ * <Leaderboard
+ *   entries={leaderboard.entries}
+ *   highlightRank={rank}
+ *   onSubmitInitials={canEnter ? (initials) => setRank(leaderboard.submit(initials, result)) : undefined}
+ *   defaultInitials={leaderboard.lastInitials}
+ * />
+ * ```
+ */
+export default function Leaderboard({
+  entries,
+  highlightRank,
+  onSubmitInitials,
+  defaultInitials = 'AAA',
+}: LeaderboardProps) {
+  return (
+    <div className={styles.leaderboard}>
+      {onSubmitInitials && (
+        <InitialsEntry defaultInitials={defaultInitials} onSubmit={onSubmitInitials} />
+      )}
+
+      {entries.length > 0 && (
+        <table className={styles.table}>
+          <tbody>
+            {entries.map((entry, i) => (
+              <tr
+                key={`${entry.date}-${i}`}
+                className={i + 1 === highlightRank ? styles.highlight : undefined}
+              >
+                <td className={styles.rank}>{i + 1}</td>
+                <td className={styles.initials}>{entry.initials}</td>
+                <td className={styles.entryScore}>{entry.score}</td>
+                <td className={styles.date}>{new Date(entry.date).toLocaleDateString()}</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      )}
+    </div>
+  );
+}
@@ -3,10 +3,12 @@
  *
  * A complete example game demonstrating:
  * - Mouse/touch paddle control
- * - Ball physics with bouncing
+ * - Ball physics with bouncing (fixed-timestep loop)
  * - Breakable bricks with colors
  * - Particles on brick destruction
  * - Power-ups (multi-ball, wide paddle)
+ * - Levels with star ratings and saved unlocks
+ * - Recorded runs with "watch best run" replays
  * - Synthesized sounds
  *
  * Copy this file to components/game/Game.tsx to use it.
@@ -14,7 +16,7 @@
 
 'use client';
 
-import { useRef, useCallback } from 'react';
+import { useRef, useCallback, useEffect } from 'react';
 import { useGameState } from '@/lib/hooks/useGameState';
 import { useGameLoop } from '@/lib/hooks/useGameLoop';
 import { useMouse } from '@/lib/hooks/useMouse';
@@ -22,8 +24,9 @@ import { useCanvas } from '@/lib/hooks/useCanvas';
 import { useParticles } from '@/lib/hooks/useParticles';
 import { useScreenShake } from '@/lib/hooks/useScreenShake';
 import { useSynthSound } from '@/lib/hooks/useSound';
-import { GameState } from '@/lib/types';
-import { clamp, rectsCollide, generateId } from '@/lib/utils';
+import { useReplay } from '@/lib/hooks/useReplay';
+import { GameState, LevelDefinition } from '@/lib/types';
+import { clamp, lerp, rectsCollide, generateId } from '@/lib/utils';
 import GameWindow from '@/components/game/GameWindow';
 import GameControls from '@/components/game/GameControls';
 import styles from '@/components/game/Game.module.css';
@@ -35,6 +38,7 @@ import styles from '@/components/game/Game.module.css';
 const CONFIG = {
   width: 600,
   height: 700,
+  targetFPS: 120,
   paddleWidth: 100,
   paddleHeight: 15,
   paddleY: 650,
@@ -49,6 +53,14 @@ const CONFIG = {
   brickOffsetLeft: 22,
 };
 
+const LEVELS: LevelDefinition[] = [
+  { id: 'warm-up', name: 'Warm Up', starThresholds: [600, 1000, 1500] },
+  { id: 'rainbow', name: 'Rainbow', starThresholds: [600, 1100, 1700] },
+  { id: 'double-trouble', name: 'Double Trouble', starThresholds: [650, 1200, 1900] },
+  { id: 'speedway', name: 'Speedway', starThresholds: [700, 1300, 2100] },
+  { id: 'finale', name: 'Finale', starThresholds: [750, 1400, 2400] },
+];
+
 // =============================================================================
 // GAME STATE TYPES
 // =============================================================================
@@ -64,6 +76,9 @@ interface Ball {
   y: number;
   vx: number;
   vy: number;
+  /** Position at the previous step, for render interpolation */
+  prevX: number;
+  prevY: number;
   radius: number;
 }
 
@@ -93,21 +108,42 @@ export default function Game() {
     end,
     addScore,
     isPlaying,
-  } = useGameState();
+    isPaused,
+    muted,
+    volume,
+    levelIndex,
+    currentLevel,
+    startLevel,
+    completeLevel,
+    nextLevel,
+    lives,
+  } = useGameState({
+    levels: LEVELS,
+    lives: { lives: 3, invincibility: 0 },
+    // Runs for the Start button and for host START commands
+    onStart: () => {
+      // Record every run (ignored while watching one back)
+      replays.record();
+      resetGameState();
+    },
+  });
 
   const { canvasRef, containerRef, scale, width, height, clear, ctx } = useCanvas(CONFIG);
   const mouse = useMouse(canvasRef as React.RefObject<HTMLElement>);
+  const replays = useReplay({ pointer: mouse });
   const particles = useParticles();
   const shake = useScreenShake();
-  const sound = useSynthSound();
+  const sound = useSynthSound({ suspended: isPaused, muted, volume });
 
   // Game state refs
   const paddle = useRef<Paddle>({ x: CONFIG.width / 2, width: CONFIG.paddleWidth });
   const balls = useRef<Ball[]>([]);
   const bricks = useRef<Brick[]>([]);
-  const lives = useRef(3);
-  const level = useRef(1);
   const combo = useRef(0);
+  // Running score for update(); `score` is state from the last render
+  const runScore = useRef(0);
+  const levelStartScore = useRef(0);
+  const finished = useRef(false);
 
   // Initialize bricks
   const initBricks = useCallback(() => {
@@ -134,128 +170,90 @@ export default function Game() {
       id: generateId(),
       x: CONFIG.width / 2,
       y: CONFIG.paddleY - 30,
-      vx: (Math.random() - 0.5) * CONFIG.ballSpeed * 0.5,
+      prevX: CONFIG.width / 2,
+      prevY: CONFIG.paddleY - 30,
+      // Seeded, so replays serve the same way
+      vx: replays.rng.range(-0.5, 0.5) * CONFIG.ballSpeed * 0.5,
       vy: -CONFIG.ballSpeed,
       radius: CONFIG.ballRadius,
     });
-  }, []);
+  }, [replays.rng]);
 
   // Reset game state
   const resetGameState = useCallback(() => {
     paddle.current = { x: CONFIG.width / 2, width: CONFIG.paddleWidth };
     balls.current = [];
-    lives.current = 3;
-    level.current = 1;
     combo.current = 0;
+    runScore.current = 0;
+    levelStartScore.current = 0;
+    finished.current = false;
+    startLevel(0);
     particles.clear();
     initBricks();
     spawnBall();
-  }, [particles, initBricks, spawnBall]);
-
-  const handlePlay = useCallback(() => {
-    resetGameState();
-    play();
-  }, [resetGameState, play]);
-
-  // Game loop
-  useGameLoop((deltaTime) => {
-    const dt = deltaTime / 1000;
-    const p = paddle.current;
-
-    // --- INPUT: Move paddle with mouse ---
-    p.x = clamp(mouse.position.x, p.width / 2, CONFIG.width - p.width / 2);
-
-    // --- UPDATE BALLS ---
-    balls.current = balls.current.filter(ball => {
-      // Move ball
-      ball.x += ball.vx * dt;
-      ball.y += ball.vy * dt;
-
-      // Wall collisions
-      if (ball.x - ball.radius < 0) {
-        ball.x = ball.radius;
-        ball.vx = Math.abs(ball.vx);
-        sound.beep(300, 50, 0.1);
-      }
-      if (ball.x + ball.radius > CONFIG.width) {
-        ball.x = CONFIG.width - ball.radius;
-        ball.vx = -Math.abs(ball.vx);
-        sound.beep(300, 50, 0.1);
-      }
-      if (ball.y - ball.radius < 0) {
-        ball.y = ball.radius;
-        ball.vy = Math.abs(ball.vy);
-        sound.beep(300, 50, 0.1);
-      }
-
-      // Paddle collision
-      const paddleRect = {
-        x: p.x - p.width / 2,
-        y: CONFIG.paddleY,
-        width: p.width,
-        height: CONFIG.paddleHeight,
-      };
-      const ballRect = {
-        x: ball.x - ball.radius,
-        y: ball.y - ball.radius,
-        width: ball.radius * 2,
-        height: ball.radius * 2,
-      };
-
-      if (ball.vy > 0 && rectsCollide(ballRect, paddleRect)) {
-        ball.y = CONFIG.paddleY - ball.radius;
-        ball.vy = -Math.abs(ball.vy);
-
-        // Angle based on where ball hits paddle
-        const hitPos = (ball.x - p.x) / (p.width / 2);
-        ball.vx = hitPos * CONFIG.ballSpeed * 0.8;
-
-        // Speed up slightly
-        const speed = Math.sqrt(ball.vx * ball.vx + ball.vy * ball.vy);
-        const newSpeed = Math.min(speed * 1.02, CONFIG.ballSpeed * 1.5);
-        const angle = Math.atan2(ball.vy, ball.vx);
-        ball.vx = Math.cos(angle) * newSpeed;
-        ball.vy = Math.sin(angle) * newSpeed;
-
-        sound.beep(500, 50, 0.2);
-        combo.current = 0;
-        particles.emit(ball.x, ball.y, { count: 5, colors: ['#00d4ff'], life: 200 });
-      }
-
-      // Ball fell off bottom
-      if (ball.y > CONFIG.height + ball.radius) {
-        return false; // Remove ball
-      }
-
-      return true;
-    });
-
-    // Check if all balls lost
-    if (balls.current.length === 0) {
-      lives.current--;
-      combo.current = 0;
-
-      if (lives.current <= 0) {
-        sound.gameOver();
-        shake.shakeLarge();
-        end({ score, level: level.current });
-        return;
-      }
-
-      // Respawn ball
-      spawnBall();
+  }, [particles, initBricks, spawnBall, startLevel]);
+
+  // Keep the best run when a game ends; finish watching when a replay does
+  useEffect(() => {
+    if (state !== GameState.GAME_OVER) return;
+    if (replays.watching) {
+      replays.stop();
+      return;
     }
+    const replay = replays.stopRecording({ score: result?.score, level: result?.level });
+    if (replay) replays.keepIfBest(replay, result?.score ?? 0);
+    // Only on entering game over
+  }, [state]);
+
+  const watchBestRun = useCallback(() => {
+    if (!replays.best) return;
+    replays.watch(replays.best);
+    play();
+  }, [replays, play]);
+
+  // Game loop (fixed step so fast balls can't tunnel through bricks)
+  useGameLoop({
+    update: (deltaTime) => {
+      // Several steps can run in one frame - stop once the game has ended
+      if (finished.current) return;
+
+      const dt = deltaTime / 1000;
+      const p = paddle.current;
+
+      // --- INPUT: Move paddle with mouse ---
+      p.x = clamp(mouse.position.x, p.width / 2, CONFIG.width - p.width / 2);
+
+      // --- UPDATE BALLS ---
+      balls.current = balls.current.filter(ball => {
+        // Move ball
+        ball.prevX = ball.x;
+        ball.prevY = ball.y;
+        ball.x += ball.vx * dt;
+        ball.y += ball.vy * dt;
+
+        // Wall collisions
+        if (ball.x - ball.radius < 0) {
+          ball.x = ball.radius;
+          ball.vx = Math.abs(ball.vx);
+          sound.beep(300, 50, 0.1);
+        }
+        if (ball.x + ball.radius > CONFIG.width) {
+          ball.x = CONFIG.width - ball.radius;
+          ball.vx = -Math.abs(ball.vx);
+          sound.beep(300, 50, 0.1);
+        }
+        if (ball.y - ball.radius < 0) {
+          ball.y = ball.radius;
+          ball.vy = Math.abs(ball.vy);
+          sound.beep(300, 50, 0.1);
+        }
 
-    // --- BRICK COLLISIONS ---
-    for (const ball of balls.current) {
-      for (const brick of bricks.current) {
-        if (!brick.active) continue;
-
-        const brickRect = {
-          x: brick.x,
-          y: brick.y,
-          width: CONFIG.brickWidth,
-          height: CONFIG.brickHeight,
+        // Paddle collision
+        const paddleRect = {
+          x: p.x - p.width / 2,
+          y: CONFIG.paddleY,
+          width: p.width,
+          height: CONFIG.paddleHeight,
         };
         const ballRect = {
           x: ball.x - ball.radius,
@@ -264,143 +262,226 @@ export default function Game() {
           height: ball.radius * 2,
         };
 
-        if (rectsCollide(ballRect, brickRect)) {
-          // Determine collision side
-          const overlapLeft = (ball.x + ball.radius) - brick.x;
-          const overlapRight = (brick.x + CONFIG.brickWidth) - (ball.x - ball.radius);
-          const overlapTop = (ball.y + ball.radius) - brick.y;
-          const overlapBottom = (brick.y + CONFIG.brickHeight) - (ball.y - ball.radius);
+        if (ball.vy > 0 && rectsCollide(ballRect, paddleRect)) {
+          ball.y = CONFIG.paddleY - ball.radius;
+          ball.vy = -Math.abs(ball.vy);
 
-          const minOverlapX = Math.min(overlapLeft, overlapRight);
-          const minOverlapY = Math.min(overlapTop, overlapBottom);
+          // Angle based on where ball hits paddle
+          const hitPos = (ball.x - p.x) / (p.width / 2);
+          ball.vx = hitPos * CONFIG.ballSpeed * 0.8;
 
-          if (minOverlapX < minOverlapY) {
-            ball.vx = -ball.vx;
-          } else {
-            ball.vy = -ball.vy;
-          }
+          // Speed up slightly
+          const speed = Math.sqrt(ball.vx * ball.vx + ball.vy * ball.vy);
+          const newSpeed = Math.min(speed * 1.02, CONFIG.ballSpeed * 1.5);
+          const angle = Math.atan2(ball.vy, ball.vx);
+          ball.vx = Math.cos(angle) * newSpeed;
+          ball.vy = Math.sin(angle) * newSpeed;
 
-          brick.health--;
-          if (brick.health <= 0) {
-            brick.active = false;
-            combo.current++;
-            const points = 10 * combo.current;
-            addScore(points);
-
-            sound.coin();
-            shake.shakeSmall();
-            particles.explode(brick.x + CONFIG.brickWidth / 2, brick.y + CONFIG.brickHeight / 2, {
-              count: 12,
-              colors: [brick.color, '#ffffff'],
-            });
-          } else {
-            sound.hit();
-            particles.emit(ball.x, ball.y, { count: 5, colors: [brick.color] });
-          }
+          sound.beep(500, 50, 0.2);
+          combo.current = 0;
+          particles.emit(ball.x, ball.y, { count: 5, colors: ['#00d4ff'], life: 200 });
+        }
 
-          break; // Only one brick collision per frame
+        // Ball fell off bottom
+        if (ball.y > CONFIG.height + ball.radius) {
+          return false; // Remove ball
         }
-      }
-    }
 
-    // Check win condition
-    const activeBricks = bricks.current.filter(b => b.active).length;
-    if (activeBricks === 0) {
-      level.current++;
-      sound.powerup();
-      shake.shakeMedium();
-      initBricks();
-      balls.current = [];
-      spawnBall();
-      paddle.current.width = CONFIG.paddleWidth; // Reset paddle size
-    }
+        return true;
+      });
 
-    // --- UPDATE EFFECTS ---
-    particles.update(deltaTime);
-    shake.update(deltaTime);
+      // Check if all balls lost
+      if (balls.current.length === 0) {
+        combo.current = 0;
 
-    // --- RENDER ---
-    const c = ctx;
-    if (!c) return;
+        // Losing the last life ends the game via useGameState
+        if (lives.hit() === 'gameOver') {
+          sound.gameOver();
+          shake.shakeLarge();
+          finished.current = true;
+          return;
+        }
 
-    c.save();
-    shake.apply(c);
+        // Respawn ball
+        spawnBall();
+      }
 
-    // Background
-    clear('#0a0a15');
+      // --- BRICK COLLISIONS ---
+      for (const ball of balls.current) {
+        for (const brick of bricks.current) {
+          if (!brick.active) continue;
+
+          const brickRect = {
+            x: brick.x,
+            y: brick.y,
+            width: CONFIG.brickWidth,
+            height: CONFIG.brickHeight,
+          };
+          const ballRect = {
+            x: ball.x - ball.radius,
+            y: ball.y - ball.radius,
+            width: ball.radius * 2,
+            height: ball.radius * 2,
+          };
+
+          if (rectsCollide(ballRect, brickRect)) {
+            // Determine collision side
+            const overlapLeft = (ball.x + ball.radius) - brick.x;
+            const overlapRight = (brick.x + CONFIG.brickWidth) - (ball.x - ball.radius);
+            const overlapTop = (ball.y + ball.radius) - brick.y;
+            const overlapBottom = (brick.y + CONFIG.brickHeight) - (ball.y - ball.radius);
+
+            const minOverlapX = Math.min(overlapLeft, overlapRight);
+            const minOverlapY = Math.min(overlapTop, overlapBottom);
+
+            if (minOverlapX < minOverlapY) {
+              ball.vx = -ball.vx;
+            } else {
+              ball.vy = -ball.vy;
+            }
+
+            brick.health--;
+            if (brick.health <= 0) {
+              brick.active = false;
+              combo.current++;
+              const points = 10 * combo.current;
+              runScore.current += points;
+              addScore(points);
+
+              sound.coin();
+              shake.shakeSmall();
+              particles.explode(brick.x + CONFIG.brickWidth / 2, brick.y + CONFIG.brickHeight / 2, {
+                count: 12,
+                colors: [brick.color, '#ffffff'],
+              });
+            } else {
+              sound.hit();
+              particles.emit(ball.x, ball.y, { count: 5, colors: [brick.color] });
+            }
+
+            break; // Only one brick collision per frame
+          }
+        }
+      }
 
-    // Bricks
-    for (const brick of bricks.current) {
-      if (!brick.active) continue;
+      // Check win condition
+      const activeBricks = bricks.current.filter(b => b.active).length;
+      if (activeBricks === 0) {
+        // Record stars/best score for this level, then move on
+        completeLevel({ score: runScore.current - levelStartScore.current });
+        if (!nextLevel()) {
+          sound.powerup();
+          finished.current = true;
+          end({ metadata: { allLevelsCleared: true } });
+          return;
+        }
+        levelStartScore.current = runScore.current;
+        sound.powerup();
+        shake.shakeMedium();
+        initBricks();
+        balls.current = [];
+        spawnBall();
+        paddle.current.width = CONFIG.paddleWidth; // Reset paddle size
+      }
 
-      c.fillStyle = brick.color;
-      c.fillRect(brick.x, brick.y, CONFIG.brickWidth, CONFIG.brickHeight);
+      // --- UPDATE EFFECTS ---
+      particles.update(deltaTime);
+      shake.update(deltaTime);
+    },
 
-      // Brick highlight
-      c.fillStyle = 'rgba(255, 255, 255, 0.3)';
-      c.fillRect(brick.x, brick.y, CONFIG.brickWidth, 3);
+    render: (alpha) => {
+      // --- RENDER ---
+      const c = ctx;
+      if (!c) return;
+      const p = paddle.current;
 
-      // Show health indicator for multi-hit bricks
-      if (brick.health > 1) {
-        c.fillStyle = 'rgba(0, 0, 0, 0.3)';
-        c.fillRect(brick.x, brick.y, CONFIG.brickWidth, CONFIG.brickHeight);
-      }
-    }
+      c.save();
+      shake.apply(c);
 
-    // Paddle
-    c.fillStyle = '#00d4ff';
-    c.fillRect(p.x - p.width / 2, CONFIG.paddleY, p.width, CONFIG.paddleHeight);
-    // Paddle highlight
-    c.fillStyle = 'rgba(255, 255, 255, 0.5)';
-    c.fillRect(p.x - p.width / 2, CONFIG.paddleY, p.width, 3);
-
-    // Balls
-    c.fillStyle = '#ffffff';
-    for (const ball of balls.current) {
-      c.beginPath();
-      c.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2);
-      c.fill();
-
-      // Ball glow
-      c.shadowColor = '#00d4ff';
-      c.shadowBlur = 10;
-      c.beginPath();
-      c.arc(ball.x, ball.y, ball.radius, 0, Math.PI * 2);
-      c.fill();
-      c.shadowBlur = 0;
-    }
+      // Background
+      clear('#0a0a15');
 
-    // Particles
-    particles.render(c);
+      // Bricks
+      for (const brick of bricks.current) {
+        if (!brick.active) continue;
 
-    c.restore();
+        c.fillStyle = brick.color;
+        c.fillRect(brick.x, brick.y, CONFIG.brickWidth, CONFIG.brickHeight);
 
-    // HUD
-    c.fillStyle = '#ffffff';
-    c.font = 'bold 20px system-ui';
-    c.textAlign = 'left';
-    c.fillText(`Score: ${score}`, 20, 30);
-    c.textAlign = 'center';
-    c.fillText(`Level ${level.current}`, CONFIG.width / 2, 30);
-    c.textAlign = 'right';
+        // Brick highlight
+        c.fillStyle = 'rgba(255, 255, 255, 0.3)';
+        c.fillRect(brick.x, brick.y, CONFIG.brickWidth, 3);
 
-    // Lives
-    for (let i = 0; i < lives.current; i++) {
+        // Show health indicator for multi-hit bricks
+        if (brick.health > 1) {
+          c.fillStyle = 'rgba(0, 0, 0, 0.3)';
+          c.fillRect(brick.x, brick.y, CONFIG.brickWidth, CONFIG.brickHeight);
+        }
+      }
+
+      // Paddle
       c.fillStyle = '#00d4ff';
-      c.beginPath();
-      c.arc(CONFIG.width - 20 - i * 25, 25, 8, 0, Math.PI * 2);
-      c.fill();
-    }
+      c.fillRect(p.x - p.width / 2, CONFIG.paddleY, p.width, CONFIG.paddleHeight);
+      // Paddle highlight
+      c.fillStyle = 'rgba(255, 255, 255, 0.5)';
+      c.fillRect(p.x - p.width / 2, CONFIG.paddleY, p.width, 3);
+
+      // Balls
+      c.fillStyle = '#ffffff';
+      for (const ball of balls.current) {
+        // Interpolate between the last two steps for smooth motion
+        const x = lerp(ball.prevX, ball.x, alpha);
+        const y = lerp(ball.prevY, ball.y, alpha);
+
+        c.beginPath();
+        c.arc(x, y, ball.radius, 0, Math.PI * 2);
+        c.fill();
+
+        // Ball glow
+        c.shadowColor = '#00d4ff';
+        c.shadowBlur = 10;
+        c.beginPath();
+        c.arc(x, y, ball.radius, 0, Math.PI * 2);
+        c.fill();
+        c.shadowBlur = 0;
+      }
+
+      // Particles
+      particles.render(c);
 
-    // Combo
-    if (combo.current > 1) {
-      c.fillStyle = '#ffaa00';
-      c.font = 'bold 16px system-ui';
+      c.restore();
+
+      // HUD
+      c.fillStyle = '#ffffff';
+      c.font = 'bold 20px system-ui';
+      c.textAlign = 'left';
+      c.fillText(`Score: ${score}`, 20, 30);
       c.textAlign = 'center';
-      c.fillText(`${combo.current}x COMBO!`, CONFIG.width / 2, 50);
-    }
+      c.fillText(currentLevel?.name ?? `Level ${levelIndex + 1}`, CONFIG.width / 2, 30);
+      c.textAlign = 'right';
+
+      // Lives
+      lives.render(c, { x: CONFIG.width - 20, y: 25, align: 'right' });
+
+      // Replay indicator
+      if (replays.watching) {
+        c.fillStyle = '#ff4444';
+        c.font = 'bold 14px system-ui';
+        c.textAlign = 'left';
+        c.fillText('● REPLAY', 20, CONFIG.height - 20);
+        c.fillStyle = 'rgba(255, 255, 255, 0.2)';
+        c.fillRect(110, CONFIG.height - 26, (CONFIG.width - 130) * replays.progress(), 4);
+      }
 
-  }, isPlaying);
+      // Combo
+      if (combo.current > 1) {
+        c.fillStyle = '#ffaa00';
+        c.font = 'bold 16px system-ui';
+        c.textAlign = 'center';
+        c.fillText(`${combo.current}x COMBO!`, CONFIG.width / 2, 50);
+      }
+    },
+  }, isPlaying, { targetFPS: CONFIG.targetFPS });
 
   return (
     <div className={styles.container}>
@@ -409,7 +490,7 @@ export default function Game() {
           <div className={styles.overlay}>
             <h2>Brick Breaker</h2>
             <p className={styles.subtitle}>Move mouse/finger to control paddle!</p>
-            <button onClick={handlePlay}>Start Game</button>
+            <button onClick={play}>Start Game</button>
           </div>
         )}
 
@@ -428,7 +509,10 @@ export default function Game() {
             {result.highScore !== undefined && result.highScore > (result.score ?? 0) && (
               <p className={styles.highScore}>Best: {result.highScore}</p>
             )}
-            <button onClick={handlePlay}>Play Again</button>
+            <button onClick={play}>Play Again</button>
+            {replays.best && (
+              <button onClick={watchBestRun}>Watch Best Run ({replays.bestScore})</button>
+            )}
           </div>
         )}
 
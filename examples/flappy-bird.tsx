@@ -17,13 +17,13 @@
 import { useRef, useCallback } from 'react';
 import { useGameState } from '@/lib/hooks/useGameState';
 import { useGameLoop } from '@/lib/hooks/useGameLoop';
-import { useKeyboard } from '@/lib/hooks/useKeyboard';
-import { useMouse } from '@/lib/hooks/useMouse';
+import { useInputActions } from '@/lib/hooks/useInputActions';
 import { useCanvas } from '@/lib/hooks/useCanvas';
 import { useParticles } from '@/lib/hooks/useParticles';
 import { useScreenShake } from '@/lib/hooks/useScreenShake';
 import { useSynthSound } from '@/lib/hooks/useSound';
 import { GameState } from '@/lib/types';
+import { ActionMap, GamepadButton } from '@/lib/input';
 import { clamp, rectsCollide } from '@/lib/utils';
 import GameWindow from '@/components/game/GameWindow';
 import GameControls from '@/components/game/GameControls';
@@ -46,6 +46,20 @@ const CONFIG = {
   birdX: 80,
 };
 
+// Tap anywhere on the canvas, click, or press a key/button to flap
+const ACTIONS = {
+  jump: {
+    bindings: [
+      'Space',
+      'ArrowUp',
+      'KeyW',
+      { mouse: 0 },
+      { touch: { x: 0, y: 0, width: 1, height: 1 } },
+      { gamepad: GamepadButton.A },
+    ],
+  },
+} satisfies ActionMap;
+
 // =============================================================================
 // GAME STATE TYPES
 // =============================================================================
@@ -79,35 +93,33 @@ export default function Game() {
     end,
     addScore,
     isPlaying,
-  } = useGameState();
+    isPaused,
+    muted,
+    volume,
+  } = useGameState({
+    // Runs for the Start button and for host START commands
+    onStart: () => resetGameState(),
+  });
 
-  const { isPressed } = useKeyboard();
   const { canvasRef, containerRef, scale, width, height, clear, drawRect, drawCircle, drawText, ctx } = useCanvas(CONFIG);
-  const mouse = useMouse(canvasRef as React.RefObject<HTMLElement>);
+  const input = useInputActions(ACTIONS, { element: canvasRef as React.RefObject<HTMLElement> });
   const particles = useParticles();
   const shake = useScreenShake();
-  const sound = useSynthSound();
+  const sound = useSynthSound({ suspended: isPaused, muted, volume });
 
   // Game state refs
   const bird = useRef<Bird>({ y: CONFIG.height / 2, vy: 0, rotation: 0 });
   const pipes = useRef<Pipe[]>([]);
   const lastPipeSpawn = useRef(0);
-  const justJumped = useRef(false);
 
   // Reset game state
   const resetGameState = useCallback(() => {
     bird.current = { y: CONFIG.height / 2, vy: 0, rotation: 0 };
     pipes.current = [];
     lastPipeSpawn.current = 0;
-    justJumped.current = false;
     particles.clear();
   }, [particles]);
 
-  const handlePlay = useCallback(() => {
-    resetGameState();
-    play();
-  }, [resetGameState, play]);
-
   // Jump logic
   const jump = useCallback(() => {
     if (!isPlaying) return;
@@ -131,14 +143,7 @@ export default function Game() {
     const dt = deltaTime / 1000;
 
     // --- INPUT ---
-    const jumpPressed = isPressed('Space') || isPressed('ArrowUp') || isPressed('KeyW') || mouse.justPressed;
-    if (jumpPressed && !justJumped.current) {
-      jump();
-      justJumped.current = true;
-    }
-    if (!jumpPressed) {
-      justJumped.current = false;
-    }
+    if (input.actions.jump.justPressed) jump();
 
     // --- UPDATE BIRD ---
     bird.current.vy += CONFIG.gravity * dt;
@@ -181,7 +186,7 @@ export default function Game() {
       sound.explosion();
       shake.shakeLarge();
       particles.explode(CONFIG.birdX, bird.current.y, { colors: ['#ffff00', '#ff8800', '#ff0000'] });
-      end({ score });
+      end({});
       return;
     }
 
@@ -194,7 +199,7 @@ export default function Game() {
         sound.explosion();
         shake.shakeLarge();
         particles.explode(CONFIG.birdX, bird.current.y, { colors: ['#ffff00', '#ff8800', '#ff0000'] });
-        end({ score });
+        end({});
         return;
       }
     }
@@ -279,7 +284,7 @@ export default function Game() {
           <div className={styles.overlay}>
             <h2>Flappy Bird</h2>
             <p className={styles.subtitle}>Tap or press Space to fly!</p>
-            <button onClick={handlePlay}>Start Game</button>
+            <button onClick={play}>Start Game</button>
           </div>
         )}
 
@@ -297,7 +302,7 @@ export default function Game() {
             {result.highScore !== undefined && result.highScore > (result.score ?? 0) && (
               <p className={styles.highScore}>Best: {result.highScore}</p>
             )}
-            <button onClick={handlePlay}>Play Again</button>
+            <button onClick={play}>Play Again</button>
           </div>
         )}
 
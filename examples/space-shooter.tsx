@@ -2,11 +2,12 @@
  * SPACE SHOOTER
  *
  * A complete example game demonstrating:
- * - Keyboard movement (arrows/WASD)
- * - Shooting with spacebar
+ * - Input actions: arrows/WASD, gamepad or on-screen stick to move
+ * - Shooting with spacebar or gamepad A
  * - Enemy waves with increasing difficulty
- * - Particles and screen shake
+ * - Particles, screen shake, hit-stop and gamepad rumble
  * - Power-ups
+ * - Lives with invincibility frames, extra lives and a continue
  * - Synthesized sounds
  *
  * Copy this file to components/game/Game.tsx to use it.
@@ -17,12 +18,15 @@
 import { useRef, useCallback } from 'react';
 import { useGameState } from '@/lib/hooks/useGameState';
 import { useGameLoop } from '@/lib/hooks/useGameLoop';
-import { useKeyboard } from '@/lib/hooks/useKeyboard';
+import { useInputActions } from '@/lib/hooks/useInputActions';
+import { useGamepad } from '@/lib/hooks/useGamepad';
+import { useVirtualControls, VirtualControl } from '@/lib/hooks/useVirtualControls';
 import { useCanvas } from '@/lib/hooks/useCanvas';
 import { useParticles } from '@/lib/hooks/useParticles';
 import { useScreenShake } from '@/lib/hooks/useScreenShake';
 import { useSynthSound } from '@/lib/hooks/useSound';
 import { GameState } from '@/lib/types';
+import { ActionMap, GamepadAxis, GamepadButton } from '@/lib/input';
 import { clamp, rectsCollide, random, randomInt, generateId } from '@/lib/utils';
 import GameWindow from '@/components/game/GameWindow';
 import GameControls from '@/components/game/GameControls';
@@ -47,6 +51,26 @@ const CONFIG = {
   powerupChance: 0.1,
 };
 
+const ACTIONS = {
+  moveX: {
+    negative: ['ArrowLeft', 'KeyA', { gamepad: GamepadButton.DpadLeft }],
+    positive: ['ArrowRight', 'KeyD', { gamepad: GamepadButton.DpadRight }],
+    gamepadAxis: GamepadAxis.LeftX,
+  },
+  moveY: {
+    negative: ['ArrowUp', 'KeyW', { gamepad: GamepadButton.DpadUp }],
+    positive: ['ArrowDown', 'KeyS', { gamepad: GamepadButton.DpadDown }],
+    gamepadAxis: GamepadAxis.LeftY,
+  },
+  fire: { bindings: ['Space', { gamepad: GamepadButton.A }, { gamepad: GamepadButton.RightTrigger }] },
+} satisfies ActionMap;
+
+// On-screen controls for touch devices - they press the same keys as above
+const TOUCH_CONTROLS: VirtualControl[] = [
+  { type: 'stick', keys: { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight' } },
+  { type: 'button', x: CONFIG.width - 70, y: CONFIG.height - 90, radius: 40, key: 'Space', label: 'FIRE' },
+];
+
 // =============================================================================
 // GAME STATE TYPES
 // =============================================================================
@@ -54,9 +78,7 @@ const CONFIG = {
 interface Player {
   x: number;
   y: number;
-  lives: number;
   powerLevel: number;
-  invincible: number;
 }
 
 interface Bullet {
@@ -98,24 +120,35 @@ export default function Game() {
     pause,
     resume,
     reset,
-    end,
     addScore,
     isPlaying,
-  } = useGameState();
+    isPaused,
+    muted,
+    volume,
+    lives,
+    isContinueOffered,
+    acceptContinue,
+    declineContinue,
+  } = useGameState({
+    lives: { lives: 3, maxLives: 5, invincibility: 2000, extraLifeEvery: 1000, continues: 1 },
+    onExtraLife: () => sound.powerup(),
+    // Runs for the Start button and for host START commands
+    onStart: () => resetGameState(),
+  });
 
-  const { isPressed } = useKeyboard();
   const { canvasRef, containerRef, scale, width, height, clear, ctx } = useCanvas(CONFIG);
+  const input = useInputActions(ACTIONS);
+  const gamepad = useGamepad();
+  const touchControls = useVirtualControls(TOUCH_CONTROLS, { element: canvasRef, width, height });
   const particles = useParticles();
   const shake = useScreenShake();
-  const sound = useSynthSound();
+  const sound = useSynthSound({ suspended: isPaused, muted, volume });
 
   // Game state refs
   const player = useRef<Player>({
     x: CONFIG.width / 2,
     y: CONFIG.height - 80,
-    lives: 3,
     powerLevel: 1,
-    invincible: 0,
   });
   const bullets = useRef<Bullet[]>([]);
   const enemies = useRef<Enemy[]>([]);
@@ -142,9 +175,7 @@ export default function Game() {
     player.current = {
       x: CONFIG.width / 2,
       y: CONFIG.height - 80,
-      lives: 3,
       powerLevel: 1,
-      invincible: 0,
     };
     bullets.current = [];
     enemies.current = [];
@@ -156,11 +187,6 @@ export default function Game() {
     initStars();
   }, [particles, initStars]);
 
-  const handlePlay = useCallback(() => {
-    resetGameState();
-    play();
-  }, [resetGameState, play]);
-
   // Fire bullet
   const fire = useCallback(() => {
     const p = player.current;
@@ -206,16 +232,15 @@ export default function Game() {
   }, []);
 
   // Game loop
-  useGameLoop((deltaTime) => {
+  useGameLoop((deltaTime, time) => {
     const dt = deltaTime / 1000;
     const p = player.current;
 
     // --- INPUT ---
+    const { moveX, moveY, fire: fireAction } = input.actions;
     const speed = CONFIG.playerSpeed * dt;
-    if (isPressed('ArrowLeft') || isPressed('KeyA')) p.x -= speed;
-    if (isPressed('ArrowRight') || isPressed('KeyD')) p.x += speed;
-    if (isPressed('ArrowUp') || isPressed('KeyW')) p.y -= speed;
-    if (isPressed('ArrowDown') || isPressed('KeyS')) p.y += speed;
+    p.x += moveX.value * speed;
+    p.y += moveY.value * speed;
 
     // Clamp player position
     p.x = clamp(p.x, CONFIG.playerWidth / 2, CONFIG.width - CONFIG.playerWidth / 2);
@@ -223,13 +248,13 @@ export default function Game() {
 
     // Firing
     lastFire.current += deltaTime;
-    if (isPressed('Space') && lastFire.current >= CONFIG.fireRate) {
+    if (fireAction.pressed && lastFire.current >= CONFIG.fireRate) {
       fire();
       lastFire.current = 0;
     }
 
     // Update invincibility
-    if (p.invincible > 0) p.invincible -= deltaTime;
+    lives.update(deltaTime);
 
     // --- SPAWN ENEMIES ---
     lastSpawn.current += deltaTime;
@@ -323,7 +348,7 @@ export default function Game() {
     bullets.current = bullets.current.filter(b => b.y > -50);
 
     // --- COLLISION: PLAYER vs ENEMIES ---
-    if (p.invincible <= 0) {
+    if (!lives.isInvincible) {
       const playerRect = {
         x: p.x - CONFIG.playerWidth / 2,
         y: p.y - CONFIG.playerHeight / 2,
@@ -335,9 +360,11 @@ export default function Game() {
         const enemyRect = { x: enemy.x - enemy.width / 2, y: enemy.y - enemy.height / 2, width: enemy.width, height: enemy.height };
 
         if (rectsCollide(playerRect, enemyRect)) {
-          p.lives--;
+          // Lost the last life: useGameState ends the game or offers a continue
+          const outcome = lives.hit();
           p.powerLevel = Math.max(1, p.powerLevel - 1);
-          p.invincible = 2000;
+          time.hitStop(80); // Freeze-frame on impact
+          gamepad.pads.forEach(pad => gamepad.rumble(pad.index, { duration: 150 }));
           sound.hit();
           shake.shakeMedium();
           particles.explode(p.x, p.y, { count: 10, colors: ['#00d4ff', '#ffffff'] });
@@ -345,11 +372,10 @@ export default function Game() {
           // Remove enemy
           enemy.y = -1000;
 
-          if (p.lives <= 0) {
+          if (outcome === 'gameOver' || outcome === 'continue') {
             sound.gameOver();
             shake.shakeLarge();
             particles.explode(p.x, p.y, { count: 50, colors: ['#00d4ff', '#00ff88', '#ffffff'] });
-            end({ score });
             return;
           }
         }
@@ -372,7 +398,7 @@ export default function Game() {
           p.powerLevel = Math.min(3, p.powerLevel + 1);
           sound.powerup();
         } else {
-          p.lives = Math.min(5, p.lives + 1);
+          lives.addLife();
           sound.coin();
         }
         particles.sparkle(pu.x, pu.y);
@@ -432,7 +458,7 @@ export default function Game() {
     }
 
     // Player
-    if (p.invincible <= 0 || Math.floor(p.invincible / 100) % 2 === 0) {
+    if (lives.blink) {
       c.fillStyle = '#00d4ff';
       c.beginPath();
       c.moveTo(p.x, p.y - CONFIG.playerHeight / 2);
@@ -463,12 +489,7 @@ export default function Game() {
     c.fillText(`Score: ${score}`, 20, 35);
 
     // Lives
-    c.fillStyle = '#ff4444';
-    for (let i = 0; i < p.lives; i++) {
-      c.beginPath();
-      c.arc(CONFIG.width - 30 - i * 25, 30, 8, 0, Math.PI * 2);
-      c.fill();
-    }
+    lives.render(c, { x: CONFIG.width - 30, y: 30, align: 'right', color: '#ff4444' });
 
     // Power level
     c.fillStyle = '#ffaa00';
@@ -476,6 +497,8 @@ export default function Game() {
     c.textAlign = 'right';
     c.fillText(`Power: ${'★'.repeat(p.powerLevel)}`, CONFIG.width - 20, 60);
 
+    // Touch controls (only shown on touch devices)
+    touchControls.render(c);
   }, isPlaying);
 
   return (
@@ -485,7 +508,16 @@ export default function Game() {
           <div className={styles.overlay}>
             <h2>Space Shooter</h2>
             <p className={styles.subtitle}>Arrow keys to move, Space to shoot!</p>
-            <button onClick={handlePlay}>Start Game</button>
+            <button onClick={play}>Start Game</button>
+          </div>
+        )}
+
+        {isContinueOffered && (
+          <div className={styles.overlay}>
+            <h2>Continue?</h2>
+            <p className={styles.subtitle}>Score: {score}</p>
+            <button onClick={acceptContinue}>Continue</button>
+            <button onClick={declineContinue}>Give Up</button>
           </div>
         )}
 
@@ -503,7 +535,7 @@ export default function Game() {
             {result.highScore !== undefined && result.highScore > (result.score ?? 0) && (
               <p className={styles.highScore}>Best: {result.highScore}</p>
             )}
-            <button onClick={handlePlay}>Play Again</button>
+            <button onClick={play}>Play Again</button>
           </div>
         )}
 
@@ -0,0 +1,224 @@
+import { AtlasData, GridLayout, SpriteSheet, createAtlas, createGridSheet, createSprite, loadImage } from './sprites';
+
+/**
+ * Asset loading
+ *
+ * A manifest lists everything a game needs before it starts - images,
+ * sprite sheets, audio for useSoundManager, fonts and JSON (levels, atlases).
+ * loadAssets fetches and decodes it all with progress and error reporting.
+ * Every file is cached for the session by URL, so useSpriteSheet,
+ * useSoundManager and later loads of the same file reuse it.
+ */
+
+/**
+ * A sprite sheet entry: the image plus a grid layout or atlas (JSON URL or data)
+ */
+export interface SpriteAsset {
+  src: string;
+  layout?: GridLayout | AtlasData | string;
+}
+
+/**
+ * A web font entry
+ */
+export interface FontAsset {
+  /** Font file URL */
+  src: string;
+  /** e.g. { weight: '700', style: 'italic' } */
+  descriptors?: FontFaceDescriptors;
+}
+
+/**
+ * Everything to load, by name
+ * Font keys are the font family name to use in ctx.font / CSS.
+ */
+export interface AssetManifest {
+  images?: Record<string, string>;
+  sprites?: Record<string, string | SpriteAsset>;
+  audio?: Record<string, string>;
+  fonts?: Record<string, string | FontAsset>;
+  json?: Record<string, string>;
+}
+
+export type AssetType = keyof AssetManifest;
+
+/**
+ * Loaded assets, by the manifest's names
+ */
+export interface LoadedAssets {
+  images: Record<string, HTMLImageElement>;
+  sprites: Record<string, SpriteSheet>;
+  /** In-memory object URLs - play with new Audio(url) or useSoundManager */
+  audio: Record<string, string>;
+  fonts: Record<string, FontFace>;
+  json: Record<string, unknown>;
+}
+
+/**
+ * An asset that failed to load
+ */
+export interface AssetError {
+  type: AssetType;
+  name: string;
+  src: string;
+  message: string;
+}
+
+/**
+ * Loading progress
+ */
+export interface AssetProgress {
+  loaded: number;
+  total: number;
+  /** 0-1 */
+  progress: number;
+  errors: AssetError[];
+}
+
+// Session cache: one request per URL, shared by every loader
+const cache = new Map<string, Promise<unknown>>();
+
+function cached<T>(key: string, load: () => Promise<T>): Promise<T> {
+  let pending = cache.get(key) as Promise<T> | undefined;
+  if (!pending) {
+    pending = load();
+    // Failures aren't cached, so a retry fetches again
+    pending.catch(() => {
+      if (cache.get(key) === pending) cache.delete(key);
+    });
+    cache.set(key, pending);
+  }
+  return pending;
+}
+
+function fetchOk(src: string): Promise<Response> {
+  return fetch(src).then(response => {
+    if (!response.ok) throw new Error(`Failed to load ${src} (${response.status})`);
+    return response;
+  });
+}
+
+/** Load and decode an image (cached) */
+export function loadCachedImage(src: string): Promise<HTMLImageElement> {
+  return cached(`image:${src}`, () => loadImage(src));
+}
+
+/** Fetch and parse JSON (cached) */
+export function loadJson<T = unknown>(src: string): Promise<T> {
+  return cached(`json:${src}`, () => fetchOk(src).then(response => response.json() as Promise<T>));
+}
+
+/**
+ * Fetch an audio file into memory (cached)
+ * Resolves to an object URL that plays without touching the network.
+ */
+export function loadAudio(src: string): Promise<string> {
+  return cached(`audio:${src}`, () => fetchOk(src)
+    .then(response => response.blob())
+    .then(blob => URL.createObjectURL(blob)));
+}
+
+/** Load a web font and add it to the document (cached) */
+export function loadFont(family: string, asset: string | FontAsset): Promise<FontFace> {
+  const { src, descriptors } = typeof asset === 'string' ? { src: asset, descriptors: undefined } : asset;
+  return cached(`font:${family}:${src}:${JSON.stringify(descriptors ?? {})}`, () => {
+    const font = new FontFace(family, `url(${src})`, descriptors);
+    return font.load().then(loadedFont => {
+      document.fonts.add(loadedFont);
+      return loadedFont;
+    });
+  });
+}
+
+/** Load an image as a sprite sheet - whole image, grid or atlas (cached files) */
+export function loadSpriteSheet(asset: string | SpriteAsset): Promise<SpriteSheet> {
+  const { src, layout } = typeof asset === 'string' ? { src: asset, layout: undefined } : asset;
+  const data = typeof layout === 'string' ? loadJson<AtlasData>(layout) : Promise.resolve(layout);
+  return Promise.all([loadCachedImage(src), data]).then(([image, resolved]) => {
+    if (!resolved) return createSprite(image);
+    if ('frames' in resolved) return createAtlas(image, resolved);
+    return createGridSheet(image, resolved);
+  });
+}
+
+/**
+ * Drop cached files (e.g. after switching language packs)
+ * Audio object URLs are revoked; don't play ones handed out earlier.
+ */
+export function clearAssetCache(): void {
+  cache.forEach((pending, key) => {
+    if (key.startsWith('audio:')) {
+      (pending as Promise<string>).then(url => URL.revokeObjectURL(url), () => {});
+    }
+  });
+  cache.clear();
+}
+
+/**
+ * Load everything in a manifest
+ * Never rejects: failed assets are reported in `errors` and left out.
+ *
+ * Usage:
+ * ```
+ * loadAssets({
+ *   images: { background: '/assets/bg.png' },
+ *   sprites: { hero: { src: '/assets/hero.png', layout: { frameWidth: 32, frameHeight: 32 } } },
+ *   audio: { coin: '/assets/sounds/coin.mp3' },
+ *   fonts: { 'Press Start': '/assets/fonts/press-start.woff2' },
+ *   json: { level1: '/assets/levels/1.json' },
+ * }, progress => setProgress(progress.progress))
+ *   .then(({ assets, errors }) => start(assets));
+ * ```
+ */
+export function loadAssets(
+  manifest: AssetManifest,
+  onProgress?: (progress: AssetProgress) => void
+): Promise<{ assets: LoadedAssets; errors: AssetError[] }> {
+  const assets: LoadedAssets = { images: {}, sprites: {}, audio: {}, fonts: {}, json: {} };
+  const errors: AssetError[] = [];
+  const jobs: { type: AssetType; name: string; src: string; load: () => Promise<void> }[] = [];
+
+  Object.entries(manifest.images ?? {}).forEach(([name, src]) => jobs.push({
+    type: 'images', name, src, load: () => loadCachedImage(src).then(image => { assets.images[name] = image; }),
+  }));
+  Object.entries(manifest.sprites ?? {}).forEach(([name, asset]) => jobs.push({
+    type: 'sprites',
+    name,
+    src: typeof asset === 'string' ? asset : asset.src,
+    load: () => loadSpriteSheet(asset).then(sheet => { assets.sprites[name] = sheet; }),
+  }));
+  Object.entries(manifest.audio ?? {}).forEach(([name, src]) => jobs.push({
+    type: 'audio', name, src, load: () => loadAudio(src).then(url => { assets.audio[name] = url; }),
+  }));
+  Object.entries(manifest.fonts ?? {}).forEach(([family, asset]) => jobs.push({
+    type: 'fonts',
+    name: family,
+    src: typeof asset === 'string' ? asset : asset.src,
+    load: () => loadFont(family, asset).then(font => { assets.fonts[family] = font; }),
+  }));
+  Object.entries(manifest.json ?? {}).forEach(([name, src]) => jobs.push({
+    type: 'json', name, src, load: () => loadJson(src).then(data => { assets.json[name] = data; }),
+  }));
+
+  let loaded = 0;
+  const total = jobs.length;
+  const report = () => onProgress?.({
+    loaded,
+    total,
+    progress: total > 0 ? loaded / total : 1,
+    errors: [...errors],
+  });
+  report();
+
+  return Promise.all(jobs.map(job => job.load()
+    .catch((error: unknown) => {
+      const message = error instanceof Error ? error.message : String(error);
+      errors.push({ type: job.type, name: job.name, src: job.src, message });
+      console.warn(`Failed to load ${job.type} "${job.name}" (${job.src}): ${message}`);
+    })
+    .then(() => {
+      loaded++;
+      report();
+    })))
+    .then(() => ({ assets, errors }));
+}
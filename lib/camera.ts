@@ -0,0 +1,306 @@
+import { Rect, Vector2D } from './types';
+import { clamp } from './utils';
+import { Transform2D, Viewport, applyTransform, invertTransform } from './viewport';
+
+/**
+ * 2D camera
+ *
+ * The camera looks at a world point (the centre of the canvas) with a zoom
+ * and rotation, and keeps its viewport's world transform in sync, so pointer
+ * positions convert with `viewport.canvasToWorld` and `screenToWorld`.
+ * Until it's moved, a camera looks at the canvas centre at zoom 1 - the
+ * identity transform - so games that don't scroll are unaffected.
+ */
+
+/**
+ * Area around the view centre, in canvas pixels, that a followed target can
+ * move in without the camera moving
+ */
+export interface CameraDeadzone {
+  width: number;
+  height: number;
+}
+
+/**
+ * Options for following a target
+ */
+export interface FollowOptions {
+  /** Deadzone (default: none - the target stays centred) */
+  deadzone?: CameraDeadzone;
+  /** 0 = locked on; closer to 1 = lazier. Fraction of the distance left after each 60fps frame */
+  smoothing?: number;
+  /** World offset from the target to look at (e.g. look-ahead) */
+  offset?: Vector2D;
+}
+
+/**
+ * A point to follow, or a function returning one (read on every update)
+ */
+export type CameraTarget = Vector2D | (() => Vector2D);
+
+/**
+ * Camera options
+ */
+export interface CameraOptions {
+  /** World point at the centre of the view (default: canvas centre) */
+  x?: number;
+  y?: number;
+  zoom?: number;
+  /** Radians */
+  rotation?: number;
+  /** World area the view stays inside */
+  bounds?: Rect | null;
+  minZoom?: number;
+  maxZoom?: number;
+}
+
+/**
+ * Camera over a viewport
+ */
+export interface Camera {
+  /** World point at the centre of the view */
+  readonly x: number;
+  readonly y: number;
+  readonly zoom: number;
+  readonly rotation: number;
+  readonly bounds: Rect | null;
+  readonly following: boolean;
+  /** World-to-canvas transform */
+  readonly transform: Readonly<Transform2D>;
+
+  setPosition: (x: number, y: number) => void;
+  moveBy: (dx: number, dy: number) => void;
+  /** Set the zoom, keeping `anchor` (a canvas point, default the centre) over the same world point */
+  setZoom: (zoom: number, anchor?: Vector2D) => void;
+  setRotation: (rotation: number) => void;
+  setBounds: (bounds: Rect | null) => void;
+  /** Follow a target on every update (null stops) */
+  follow: (target: CameraTarget | null, options?: FollowOptions) => void;
+  /** Jump straight to the followed target, ignoring deadzone and smoothing */
+  snap: () => void;
+  /** Back to the canvas centre, zoom 1, no rotation, bounds or target */
+  reset: () => void;
+  /** Follow and clamp (call in the game loop) */
+  update: (deltaTime: number) => void;
+
+  /** Multiply the camera transform into a context (between save/restore) */
+  apply: (ctx: CanvasRenderingContext2D) => void;
+  worldToCanvas: (point: Vector2D) => Vector2D;
+  canvasToWorld: (point: Vector2D) => Vector2D;
+  /** World-space box containing everything on screen (for culling) */
+  visibleBounds: () => Rect;
+  /** Whether a world rect is at least partly on screen */
+  isVisible: (rect: Rect) => boolean;
+}
+
+/** Milliseconds in a 60fps frame, the unit smoothing is defined in */
+const FRAME_MS = 1000 / 60;
+
+/**
+ * Create a camera for a viewport (useCanvas creates one per canvas)
+ *
+ * Usage:
+ * ```
+ * const camera = createCamera(viewport, { bounds: { x: 0, y: 0, width: 3200, height: 600 } });
+ * camera.follow(() => player.current, { deadzone: { width: 120, height: 80 }, smoothing: 0.85 });
+ *
+ * // In game loop
+ * camera.update(deltaTime);
+ * ctx.save();
+ * camera.apply(ctx);
+ * drawWorld();
+ * ctx.restore();
+ * drawHud();
+ * ```
+ */
+export function createCamera(viewport: Viewport, options: CameraOptions = {}): Camera {
+  const minZoom = options.minZoom ?? 0.05;
+  const maxZoom = options.maxZoom ?? 20;
+  // null = the canvas centre, whatever its size
+  let x: number | null = options.x ?? null;
+  let y: number | null = options.y ?? null;
+  let zoom = clamp(options.zoom ?? 1, minZoom, maxZoom);
+  let rotation = options.rotation ?? 0;
+  let bounds: Rect | null = options.bounds ?? null;
+  let target: CameraTarget | null = null;
+  let follow: FollowOptions = {};
+
+  const centerX = () => x ?? viewport.width / 2;
+  const centerY = () => y ?? viewport.height / 2;
+
+  const transform = (): Transform2D => {
+    const cos = Math.cos(rotation) * zoom;
+    const sin = Math.sin(rotation) * zoom;
+    const cx = centerX();
+    const cy = centerY();
+    return {
+      a: cos,
+      b: sin,
+      c: -sin,
+      d: cos,
+      e: viewport.width / 2 - (cos * cx - sin * cy),
+      f: viewport.height / 2 - (sin * cx + cos * cy),
+    };
+  };
+
+  const sync = () => viewport.setWorldTransform(transform());
+
+  // Keep the view inside the bounds (centred on them if it's bigger)
+  const clampToBounds = () => {
+    if (!bounds) return;
+    const halfWidth = viewport.width / 2 / zoom;
+    const halfHeight = viewport.height / 2 / zoom;
+    const cos = Math.abs(Math.cos(rotation));
+    const sin = Math.abs(Math.sin(rotation));
+    const extentX = cos * halfWidth + sin * halfHeight;
+    const extentY = sin * halfWidth + cos * halfHeight;
+    x = bounds.width <= extentX * 2
+      ? bounds.x + bounds.width / 2
+      : clamp(centerX(), bounds.x + extentX, bounds.x + bounds.width - extentX);
+    y = bounds.height <= extentY * 2
+      ? bounds.y + bounds.height / 2
+      : clamp(centerY(), bounds.y + extentY, bounds.y + bounds.height - extentY);
+  };
+
+  // Move toward the followed target; amount 1 = all the way
+  const moveTowardTarget = (amount: number, useDeadzone: boolean) => {
+    if (!target) return;
+    const point = typeof target === 'function' ? target() : target;
+    const offset = follow.offset ?? { x: 0, y: 0 };
+    const worldDx = point.x + offset.x - centerX();
+    const worldDy = point.y + offset.y - centerY();
+
+    // Deadzone is measured on screen, so rotate and scale into canvas pixels
+    const cos = Math.cos(rotation);
+    const sin = Math.sin(rotation);
+    let dx = (cos * worldDx - sin * worldDy) * zoom;
+    let dy = (sin * worldDx + cos * worldDy) * zoom;
+    if (useDeadzone && follow.deadzone) {
+      const halfWidth = follow.deadzone.width / 2;
+      const halfHeight = follow.deadzone.height / 2;
+      dx = dx > halfWidth ? dx - halfWidth : dx < -halfWidth ? dx + halfWidth : 0;
+      dy = dy > halfHeight ? dy - halfHeight : dy < -halfHeight ? dy + halfHeight : 0;
+    }
+
+    // ...and back to world units
+    const shiftX = (cos * dx + sin * dy) / zoom;
+    const shiftY = (-sin * dx + cos * dy) / zoom;
+    x = centerX() + shiftX * amount;
+    y = centerY() + shiftY * amount;
+  };
+
+  const canvasToWorld = (point: Vector2D) => applyTransform(invertTransform(transform()), point);
+
+  const visibleBounds = (): Rect => {
+    const corners = [
+      canvasToWorld({ x: 0, y: 0 }),
+      canvasToWorld({ x: viewport.width, y: 0 }),
+      canvasToWorld({ x: 0, y: viewport.height }),
+      canvasToWorld({ x: viewport.width, y: viewport.height }),
+    ];
+    const xs = corners.map(p => p.x);
+    const ys = corners.map(p => p.y);
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    return { x: left, y: top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+  };
+
+  return {
+    get x() {
+      return centerX();
+    },
+    get y() {
+      return centerY();
+    },
+    get zoom() {
+      return zoom;
+    },
+    get rotation() {
+      return rotation;
+    },
+    get bounds() {
+      return bounds;
+    },
+    get following() {
+      return target !== null;
+    },
+    get transform() {
+      return transform();
+    },
+
+    setPosition: (nextX, nextY) => {
+      x = nextX;
+      y = nextY;
+      clampToBounds();
+      sync();
+    },
+    moveBy: (dx, dy) => {
+      x = centerX() + dx;
+      y = centerY() + dy;
+      clampToBounds();
+      sync();
+    },
+    setZoom: (nextZoom, anchor) => {
+      const fixed = anchor ?? { x: viewport.width / 2, y: viewport.height / 2 };
+      const before = canvasToWorld(fixed);
+      zoom = clamp(nextZoom, minZoom, maxZoom);
+      const after = canvasToWorld(fixed);
+      x = centerX() + before.x - after.x;
+      y = centerY() + before.y - after.y;
+      clampToBounds();
+      sync();
+    },
+    setRotation: nextRotation => {
+      rotation = nextRotation;
+      clampToBounds();
+      sync();
+    },
+    setBounds: nextBounds => {
+      bounds = nextBounds;
+      clampToBounds();
+      sync();
+    },
+    follow: (nextTarget, nextOptions = {}) => {
+      target = nextTarget;
+      follow = nextOptions;
+    },
+    snap: () => {
+      moveTowardTarget(1, false);
+      clampToBounds();
+      sync();
+    },
+    reset: () => {
+      x = null;
+      y = null;
+      zoom = 1;
+      rotation = 0;
+      bounds = null;
+      target = null;
+      follow = {};
+      sync();
+    },
+    update: deltaTime => {
+      const smoothing = clamp(follow.smoothing ?? 0, 0, 0.999);
+      // Frame-rate independent: the same lag at 30, 60 or 144fps
+      const amount = smoothing > 0 ? 1 - Math.pow(smoothing, deltaTime / FRAME_MS) : 1;
+      moveTowardTarget(amount, true);
+      clampToBounds();
+      sync();
+    },
+
+    apply: ctx => {
+      const t = transform();
+      ctx.transform(t.a, t.b, t.c, t.d, t.e, t.f);
+    },
+    worldToCanvas: point => applyTransform(transform(), point),
+    canvasToWorld,
+    visibleBounds,
+    isVisible: rect => {
+      const view = visibleBounds();
+      return rect.x < view.x + view.width
+        && rect.x + rect.width > view.x
+        && rect.y < view.y + view.height
+        && rect.y + rect.height > view.y;
+    },
+  };
+}
@@ -0,0 +1,341 @@
+import { Vector2D } from './types';
+import { getGameTick, onGameTick } from './time';
+import { GamepadAxis, PRESS_THRESHOLD } from './input';
+import { InputStore } from './inputStore';
+
+/**
+ * Gamepads
+ *
+ * The Gamepad API has no button events - pads must be polled. The gamepad
+ * store polls once per game-loop step, applies radial deadzones to the
+ * sticks and stamps button edges like the keyboard store does. Fake pads
+ * created with createFakeGamepad() show up next to real ones, so controller
+ * support can be tested without hardware.
+ */
+
+/**
+ * The parts of a Gamepad the template reads (real pads and fakes)
+ */
+export interface GamepadLike {
+  readonly id: string;
+  readonly index: number;
+  readonly connected: boolean;
+  readonly mapping: GamepadMappingType;
+  readonly axes: readonly number[];
+  readonly buttons: readonly { pressed: boolean; value: number }[];
+  readonly vibrationActuator?: Pick<GamepadHapticActuator, 'playEffect'> | null;
+}
+
+/**
+ * Normalised state of one connected pad
+ */
+export interface PadState {
+  readonly index: number;
+  readonly id: string;
+  /** Whether buttons follow the standard mapping (see GamepadButton) */
+  readonly standard: boolean;
+  /** Button values (0-1) */
+  readonly buttons: readonly number[];
+  /** Left stick with the radial deadzone applied */
+  readonly leftStick: Vector2D;
+  /** Right stick with the radial deadzone applied */
+  readonly rightStick: Vector2D;
+  isPressed: (button: number) => boolean;
+  /** Pressed since the previous game-loop step */
+  justPressed: (button: number) => boolean;
+  /** Released since the previous game-loop step */
+  justReleased: (button: number) => boolean;
+}
+
+/**
+ * Rumble effect
+ */
+export interface RumbleOptions {
+  /** Length in ms (default: 200) */
+  duration?: number;
+  /** Low-frequency motor, 0-1 (default: 1) */
+  strong?: number;
+  /** High-frequency motor, 0-1 (default: 0.5) */
+  weak?: number;
+}
+
+/**
+ * Gamepad state shared by the whole game
+ */
+export interface GamepadStore extends InputStore {
+  /** Connected pads, in index order */
+  readonly pads: readonly PadState[];
+  /** Radial stick deadzone, 0-1 (default: 0.15) */
+  deadzone: number;
+  /** A pad by index, or the first connected pad */
+  pad: (index?: number) => PadState | null;
+  /** Read every pad now (done automatically before each game-loop step) */
+  poll: () => void;
+  /** Vibrate a pad where supported; returns false if it can't rumble */
+  rumble: (index: number, options?: RumbleOptions) => boolean;
+  /** Listen for connections and poll each step (reference counted) */
+  connect: () => () => void;
+}
+
+/**
+ * Software gamepad for tests and demos
+ */
+export interface FakeGamepad extends GamepadLike {
+  /** Press a button (value 0-1) */
+  press: (button: number, value?: number) => void;
+  release: (button: number) => void;
+  /** Set a raw axis value (-1 to 1) */
+  setAxis: (axis: number, value: number) => void;
+  /** Set both axes of a stick */
+  setStick: (stick: 'left' | 'right', x: number, y: number) => void;
+  /** Remove the pad (fires a disconnect) */
+  disconnect: () => void;
+}
+
+const STANDARD_BUTTONS = 17;
+const STANDARD_AXES = 4;
+
+/**
+ * Apply a radial deadzone to a stick
+ * Unlike per-axis deadzones this keeps diagonals smooth; output is rescaled
+ * so the magnitude still runs 0-1 outside the deadzone.
+ */
+export function applyRadialDeadzone(x: number, y: number, deadzone: number): Vector2D {
+  const magnitude = Math.sqrt(x * x + y * y);
+  if (magnitude < deadzone || magnitude === 0) return { x: 0, y: 0 };
+  const scaled = Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+  return { x: (x / magnitude) * scaled, y: (y / magnitude) * scaled };
+}
+
+// Fake pads, and a hook for the store to hear about them
+const fakePads = new Map<number, FakeGamepad>();
+let onFakeChange: (() => void) | null = null;
+
+/**
+ * Connected pads (real and fake), indexed by pad index
+ */
+export function getGamepads(): (GamepadLike | null)[] {
+  const pads: (GamepadLike | null)[] =
+    typeof navigator !== 'undefined' && navigator.getGamepads ? Array.from(navigator.getGamepads()) : [];
+  fakePads.forEach(pad => {
+    pads[pad.index] = pad;
+  });
+  return Array.from(pads, pad => pad ?? null);
+}
+
+/**
+ * Connect a fake standard-mapping gamepad
+ *
+ * Usage:
+ * ```
+ * const pad = createFakeGamepad();
+ * pad.press(GamepadButton.A);
+ * pad.setStick('left', 1, 0);
+ * // ... later
+ * pad.disconnect();
+ * ```
+ */
+export function createFakeGamepad(options: { id?: string; index?: number } = {}): FakeGamepad {
+  const used = new Set(getGamepads().map((pad, i) => (pad ? i : -1)));
+  let index = options.index ?? 0;
+  while (options.index === undefined && used.has(index)) index++;
+
+  const buttons = Array.from({ length: STANDARD_BUTTONS }, () => ({ pressed: false, value: 0 }));
+  const axes = new Array<number>(STANDARD_AXES).fill(0);
+  let connected = true;
+
+  const pad: FakeGamepad = {
+    id: options.id ?? `Fake Gamepad ${index}`,
+    index,
+    mapping: 'standard',
+    axes,
+    buttons,
+    vibrationActuator: null,
+    get connected() {
+      return connected;
+    },
+    press: (button, value = 1) => {
+      buttons[button] = { pressed: value >= PRESS_THRESHOLD, value };
+    },
+    release: button => {
+      buttons[button] = { pressed: false, value: 0 };
+    },
+    setAxis: (axis, value) => {
+      axes[axis] = Math.max(-1, Math.min(1, value));
+    },
+    setStick: (stick, x, y) => {
+      pad.setAxis(stick === 'left' ? GamepadAxis.LeftX : GamepadAxis.RightX, x);
+      pad.setAxis(stick === 'left' ? GamepadAxis.LeftY : GamepadAxis.RightY, y);
+    },
+    disconnect: () => {
+      if (!connected) return;
+      connected = false;
+      fakePads.delete(index);
+      onFakeChange?.();
+    },
+  };
+
+  fakePads.set(index, pad);
+  onFakeChange?.();
+  return pad;
+}
+
+interface PadRecord {
+  state: PadState;
+  buttons: number[];
+  leftStick: Vector2D;
+  rightStick: Vector2D;
+  pressedAt: number[];
+  releasedAt: number[];
+}
+
+/**
+ * Create a gamepad store
+ */
+export function createGamepadStore(): GamepadStore {
+  const records = new Map<number, PadRecord>();
+  let pads: PadState[] = [];
+  const listeners = new Set<() => void>();
+  let connections = 0;
+  let detach: (() => void) | null = null;
+
+  const notify = () => listeners.forEach(listener => listener());
+
+  const createRecord = (source: GamepadLike): PadRecord => {
+    const record: Omit<PadRecord, 'state'> = {
+      buttons: [],
+      leftStick: { x: 0, y: 0 },
+      rightStick: { x: 0, y: 0 },
+      pressedAt: [],
+      releasedAt: [],
+    };
+    const state: PadState = {
+      index: source.index,
+      id: source.id,
+      standard: source.mapping === 'standard',
+      get buttons() {
+        return record.buttons;
+      },
+      get leftStick() {
+        return record.leftStick;
+      },
+      get rightStick() {
+        return record.rightStick;
+      },
+      isPressed: button => (record.buttons[button] ?? 0) >= PRESS_THRESHOLD,
+      justPressed: button => record.pressedAt[button] === getGameTick(),
+      justReleased: button => record.releasedAt[button] === getGameTick(),
+    };
+    return Object.assign(record, { state });
+  };
+
+  const store: GamepadStore = {
+    deadzone: 0.15,
+
+    get pads() {
+      return pads;
+    },
+
+    pad: index => {
+      if (index === undefined) return pads[0] ?? null;
+      return records.get(index)?.state ?? null;
+    },
+
+    poll: () => {
+      const tick = getGameTick();
+      const seen = new Set<number>();
+      let changed = false;
+
+      getGamepads().forEach(source => {
+        if (!source || !source.connected) return;
+        seen.add(source.index);
+
+        let existing = records.get(source.index);
+        if (!existing || existing.state.id !== source.id) {
+          existing = createRecord(source);
+          records.set(source.index, existing);
+          changed = true;
+        }
+        const record = existing;
+
+        source.buttons.forEach((button, i) => {
+          // Digital buttons may report pressed with a value of 0
+          const value = button.pressed ? Math.max(button.value, PRESS_THRESHOLD) : button.value;
+          const was = (record.buttons[i] ?? 0) >= PRESS_THRESHOLD;
+          const is = value >= PRESS_THRESHOLD;
+          if (is && !was) record.pressedAt[i] = tick;
+          if (!is && was) record.releasedAt[i] = tick;
+          record.buttons[i] = value;
+        });
+
+        const axes = source.axes;
+        record.leftStick = applyRadialDeadzone(axes[GamepadAxis.LeftX] ?? 0, axes[GamepadAxis.LeftY] ?? 0, store.deadzone);
+        record.rightStick = applyRadialDeadzone(axes[GamepadAxis.RightX] ?? 0, axes[GamepadAxis.RightY] ?? 0, store.deadzone);
+      });
+
+      records.forEach((_, index) => {
+        if (!seen.has(index)) {
+          records.delete(index);
+          changed = true;
+        }
+      });
+
+      if (changed) {
+        pads = Array.from(records.values()).map(r => r.state).sort((a, b) => a.index - b.index);
+        notify();
+      }
+    },
+
+    rumble: (index, options = {}) => {
+      const { duration = 200, strong = 1, weak = 0.5 } = options;
+      const actuator = getGamepads()[index]?.vibrationActuator;
+      if (!actuator?.playEffect) return false;
+      actuator.playEffect('dual-rumble', {
+        duration,
+        strongMagnitude: strong,
+        weakMagnitude: weak,
+      }).catch(() => {
+        // Unsupported effect or pad disconnected mid-effect
+      });
+      return true;
+    },
+
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+
+    connect: () => {
+      if (typeof window === 'undefined') return () => {};
+      if (connections++ === 0) {
+        const handleChange = () => store.poll();
+        window.addEventListener('gamepadconnected', handleChange);
+        window.addEventListener('gamepaddisconnected', handleChange);
+        onFakeChange = handleChange;
+        const stopPolling = onGameTick(store.poll);
+        store.poll();
+        detach = () => {
+          window.removeEventListener('gamepadconnected', handleChange);
+          window.removeEventListener('gamepaddisconnected', handleChange);
+          onFakeChange = null;
+          stopPolling();
+        };
+      }
+      return () => {
+        if (--connections === 0) {
+          detach?.();
+          detach = null;
+        }
+      };
+    },
+  };
+
+  return store;
+}
+
+/**
+ * Gamepads shared by the whole game
+ */
+export const gamepadStore = createGamepadStore();
@@ -0,0 +1,225 @@
+import { Vector2D } from './types';
+
+/**
+ * Gesture recognition
+ *
+ * Turns raw pointer down/move/up calls into taps, double-taps, long-presses,
+ * swipes and two-finger pinch/rotate. Positions are whatever coordinate
+ * space the caller uses (useMouse passes canvas pixels).
+ */
+
+export type SwipeDirection = 'left' | 'right' | 'up' | 'down';
+
+/**
+ * A recognised gesture
+ */
+export type GestureEvent =
+  | { type: 'tap'; position: Vector2D }
+  | { type: 'doubleTap'; position: Vector2D }
+  | { type: 'longPress'; position: Vector2D }
+  | {
+      type: 'swipe';
+      /** Where the swipe started */
+      position: Vector2D;
+      direction: SwipeDirection;
+      /** Average velocity in pixels per ms */
+      velocity: Vector2D;
+      distance: number;
+    }
+  | {
+      type: 'pinch';
+      center: Vector2D;
+      /** Finger distance relative to the start of the pinch (2 = twice as far apart) */
+      scale: number;
+    }
+  | {
+      type: 'rotate';
+      center: Vector2D;
+      /** Radians since the start of the gesture (clockwise positive) */
+      rotation: number;
+    };
+
+/**
+ * Gesture thresholds
+ */
+export interface GestureOptions {
+  /** Max press length for a tap, ms (default: 250) */
+  tapTime?: number;
+  /** Max movement for taps and long-presses, px (default: 10) */
+  tapSlop?: number;
+  /** Max gap between the taps of a double-tap, ms (default: 300) */
+  doubleTapTime?: number;
+  /** Hold time for a long-press, ms (default: 500) */
+  longPressTime?: number;
+  /** Min distance for a swipe, px (default: 50) */
+  swipeDistance?: number;
+  /** Min average speed for a swipe, px/ms (default: 0.3) */
+  swipeVelocity?: number;
+}
+
+/**
+ * Gesture recogniser fed with pointer events
+ */
+export interface GestureRecognizer {
+  down: (id: number, position: Vector2D, time: number) => void;
+  move: (id: number, position: Vector2D, time: number) => void;
+  up: (id: number, position: Vector2D, time: number) => void;
+  /** Forget a pointer without recognising anything (pointercancel) */
+  cancel: (id: number) => void;
+  /** Clear timers */
+  dispose: () => void;
+}
+
+interface TrackedPointer {
+  start: Vector2D;
+  position: Vector2D;
+  startTime: number;
+  /** Moved too far for a tap or long-press */
+  moved: boolean;
+  /** Part of a two-finger gesture, or already long-pressed */
+  consumed: boolean;
+}
+
+const DEFAULT_OPTIONS: Required<GestureOptions> = {
+  tapTime: 250,
+  tapSlop: 10,
+  doubleTapTime: 300,
+  longPressTime: 500,
+  swipeDistance: 50,
+  swipeVelocity: 0.3,
+};
+
+const distance = (a: Vector2D, b: Vector2D) => Math.hypot(b.x - a.x, b.y - a.y);
+const angle = (a: Vector2D, b: Vector2D) => Math.atan2(b.y - a.y, b.x - a.x);
+const midpoint = (a: Vector2D, b: Vector2D): Vector2D => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+/**
+ * Create a gesture recogniser
+ */
+export function createGestureRecognizer(
+  emit: (gesture: GestureEvent) => void,
+  options: GestureOptions = {}
+): GestureRecognizer {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const pointers = new Map<number, TrackedPointer>();
+  const longPressTimers = new Map<number, ReturnType<typeof setTimeout>>();
+  let lastTap: { position: Vector2D; time: number } | null = null;
+  // Two-finger gesture baseline
+  let pair: { ids: [number, number]; distance: number; angle: number } | null = null;
+
+  const clearLongPress = (id: number) => {
+    const timer = longPressTimers.get(id);
+    if (timer !== undefined) clearTimeout(timer);
+    longPressTimers.delete(id);
+  };
+
+  const startPair = () => {
+    const [a, b] = Array.from(pointers.entries()).slice(0, 2);
+    pair = {
+      ids: [a[0], b[0]],
+      distance: distance(a[1].position, b[1].position) || 1,
+      angle: angle(a[1].position, b[1].position),
+    };
+    pointers.forEach((pointer, id) => {
+      pointer.consumed = true;
+      clearLongPress(id);
+    });
+  };
+
+  return {
+    down(id, position, time) {
+      const tracked: TrackedPointer = { start: position, position, startTime: time, moved: false, consumed: false };
+      pointers.set(id, tracked);
+
+      if (pointers.size === 2) {
+        startPair();
+        return;
+      }
+      if (pointers.size > 2) {
+        tracked.consumed = true;
+        return;
+      }
+
+      longPressTimers.set(id, setTimeout(() => {
+        longPressTimers.delete(id);
+        const pointer = pointers.get(id);
+        if (!pointer || pointer.moved || pointer.consumed) return;
+        pointer.consumed = true;
+        emit({ type: 'longPress', position: pointer.position });
+      }, opts.longPressTime));
+    },
+
+    move(id, position) {
+      const pointer = pointers.get(id);
+      if (!pointer) return;
+      pointer.position = position;
+      if (!pointer.moved && distance(pointer.start, position) > opts.tapSlop) {
+        pointer.moved = true;
+        clearLongPress(id);
+      }
+
+      if (pair && pair.ids.includes(id)) {
+        const a = pointers.get(pair.ids[0]);
+        const b = pointers.get(pair.ids[1]);
+        if (!a || !b) return;
+        const center = midpoint(a.position, b.position);
+        emit({ type: 'pinch', center, scale: distance(a.position, b.position) / pair.distance });
+        let rotation = angle(a.position, b.position) - pair.angle;
+        // Keep within -PI..PI so crossing the atan2 seam doesn't jump
+        rotation = Math.atan2(Math.sin(rotation), Math.cos(rotation));
+        emit({ type: 'rotate', center, rotation });
+      }
+    },
+
+    up(id, position, time) {
+      const pointer = pointers.get(id);
+      clearLongPress(id);
+      pointers.delete(id);
+      if (!pointer) return;
+      if (pair && pair.ids.includes(id)) pair = null;
+      if (pointer.consumed) return;
+
+      const duration = Math.max(1, time - pointer.startTime);
+      const dx = position.x - pointer.start.x;
+      const dy = position.y - pointer.start.y;
+      const travelled = Math.hypot(dx, dy);
+
+      if (!pointer.moved && duration <= opts.tapTime) {
+        emit({ type: 'tap', position });
+        if (lastTap && time - lastTap.time <= opts.doubleTapTime && distance(lastTap.position, position) <= opts.tapSlop * 3) {
+          emit({ type: 'doubleTap', position });
+          lastTap = null;
+        } else {
+          lastTap = { position, time };
+        }
+        return;
+      }
+
+      if (travelled >= opts.swipeDistance && travelled / duration >= opts.swipeVelocity) {
+        const direction: SwipeDirection = Math.abs(dx) > Math.abs(dy)
+          ? (dx > 0 ? 'right' : 'left')
+          : (dy > 0 ? 'down' : 'up');
+        emit({
+          type: 'swipe',
+          position: pointer.start,
+          direction,
+          velocity: { x: dx / duration, y: dy / duration },
+          distance: travelled,
+        });
+      }
+    },
+
+    cancel(id) {
+      clearLongPress(id);
+      pointers.delete(id);
+      if (pair && pair.ids.includes(id)) pair = null;
+    },
+
+    dispose() {
+      longPressTimers.forEach(timer => clearTimeout(timer));
+      longPressTimers.clear();
+      pointers.clear();
+      pair = null;
+    },
+  };
+}
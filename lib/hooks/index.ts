@@ -1,13 +1,54 @@
 // Game hooks - import these in your Game.tsx
 export { useGameState } from './useGameState';
+export { useHostChannel, isHostCommand, isOriginAllowed } from './useHostChannel';
+export { useLives, CONTINUE_STATE } from './useLives';
+export { useSaveSlot } from './useSaveSlot';
+export { useLeaderboard, normalizeInitials } from './useLeaderboard';
+export { useAchievements } from './useAchievements';
 export { useGameLoop } from './useGameLoop';
+export { useInputActions } from './useInputActions';
+export { useInputBindings, INPUT_BINDINGS_SLOT } from './useInputBindings';
 export { useKeyboard } from './useKeyboard';
 export { useMouse } from './useMouse';
+export { useInputValue } from './useInputValue';
+export { useGamepad } from './useGamepad';
+export { useReplay } from './useReplay';
+export { useVirtualControls } from './useVirtualControls';
 export { useCanvas } from './useCanvas';
+export { useSpriteSheet } from './useSpriteSheet';
+export { useAssets } from './useAssets';
 export { useSound, useSoundManager, useSynthSound } from './useSound';
 export { useParticles } from './useParticles';
 export { useScreenShake } from './useScreenShake';
+export { useRenderer } from './useRenderer';
 
 // Re-export types
+export type {
+  AchievementDefinition,
+  AchievementCondition,
+  AchievementEvent,
+  AchievementStats,
+  AchievementsOptions,
+  AchievementToastOptions,
+  UnlockedAchievement,
+} from './useAchievements';
+export type { AssetLoadState } from './useAssets';
+export type { FixedStepCallbacks, GameLoopOptions } from './useGameLoop';
+export type { GameStateOptions } from './useGameState';
+export type { HostChannelOptions } from './useHostChannel';
+export type { GamepadOptions } from './useGamepad';
+export type {
+  VirtualControl,
+  VirtualStick,
+  VirtualDpad,
+  VirtualButton,
+  VirtualControlsOptions,
+  DirectionKeys,
+} from './useVirtualControls';
+export type { InputActionsOptions } from './useInputActions';
+export type { InputBindings, BindingChange } from './useInputBindings';
+export type { LeaderboardOptions } from './useLeaderboard';
+export type { LevelCompletion } from './useProgression';
+export type { LivesOptions, LivesStats, HitResult, LivesRenderOptions } from './useLives';
 export type { Particle, ParticleOptions } from './useParticles';
 export type { ShakeOptions } from './useScreenShake';
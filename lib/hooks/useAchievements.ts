@@ -0,0 +1,355 @@
+import { useRef, useState, useCallback, useEffect, useMemo } from 'react';
+import { AchievementInfo } from '../types';
+import { defineSlot, saveStorage } from '../storage';
+import { useHostChannel } from './useHostChannel';
+
+/**
+ * Counters available to achievement conditions
+ */
+export interface AchievementStats {
+  /** Totals across every run (persisted) */
+  lifetime: Record<string, number>;
+  /** Totals for the current run (cleared by startRun) */
+  run: Record<string, number>;
+}
+
+/**
+ * A game event passed to track()
+ */
+export interface AchievementEvent {
+  type: string;
+  payload?: unknown;
+}
+
+/**
+ * When an achievement unlocks
+ * - `{ stat, atLeast }`: a counter reaches a value (lifetime unless scope: 'run')
+ * - `{ event, when? }`: an event is tracked (optionally matching a predicate;
+ *   type its parameter as the payload you pass to track(), e.g. `(p: { deaths: number })`)
+ * - a function checked after every counter change and event
+ */
+export type AchievementCondition =
+  | { stat: string; atLeast: number; scope?: 'lifetime' | 'run' }
+  | { event: string; when?: (payload: never, stats: AchievementStats) => boolean }
+  | ((stats: AchievementStats, event?: AchievementEvent) => boolean);
+
+/**
+ * Achievement definition
+ */
+export interface AchievementDefinition extends AchievementInfo {
+  condition: AchievementCondition;
+}
+
+/**
+ * An unlocked achievement
+ */
+export interface UnlockedAchievement extends AchievementInfo {
+  unlockedAt: number;
+}
+
+/**
+ * Achievements options
+ */
+export interface AchievementsOptions {
+  /** Called after an achievement unlocks (and ACHIEVEMENT_UNLOCKED is posted) */
+  onUnlock?: (achievement: UnlockedAchievement) => void;
+  /** How long each unlock toast is shown, in ms (default: 3000) */
+  toastDuration?: number;
+}
+
+/**
+ * Unlock toast display options
+ */
+export interface AchievementToastOptions {
+  /** Canvas width - toasts are centered horizontally */
+  width: number;
+  y?: number;
+  color?: string;
+  background?: string;
+}
+
+interface AchievementsSave {
+  /** Unlock timestamps keyed by achievement id */
+  unlocked: Record<string, number>;
+  /** Lifetime counters */
+  stats: Record<string, number>;
+}
+
+interface Toast {
+  achievement: UnlockedAchievement;
+  age: number;
+}
+
+/**
+ * Achievements save slot
+ */
+const ACHIEVEMENTS_SLOT = defineSlot<AchievementsSave>({
+  key: 'achievements',
+  version: 1,
+  defaults: () => ({ unlocked: {}, stats: {} }),
+  validate: data => {
+    const save = data as AchievementsSave;
+    return !!save && typeof save.unlocked === 'object' && typeof save.stats === 'object';
+  },
+});
+
+/** Delay before counter changes are written to storage */
+const SAVE_DELAY = 1000;
+/** Toast fade in/out time in ms */
+const TOAST_FADE = 250;
+
+/** Check a condition against the current counters and event */
+function isMet(condition: AchievementCondition, stats: AchievementStats, event?: AchievementEvent): boolean {
+  if (typeof condition === 'function') return condition(stats, event);
+  if ('stat' in condition) {
+    const counters = condition.scope === 'run' ? stats.run : stats.lifetime;
+    return (counters[condition.stat] ?? 0) >= condition.atLeast;
+  }
+  if (!event || event.type !== condition.event) return false;
+  // The predicate's payload type is the game's promise about what it tracks
+  const when = condition.when as ((payload: unknown, stats: AchievementStats) => boolean) | undefined;
+  return when?.(event.payload, stats) ?? true;
+}
+
+/** Strip the condition for messages and UI */
+function toInfo({ id, name, description, hidden }: AchievementDefinition): AchievementInfo {
+  return { id, name, ...(description !== undefined && { description }), ...(hidden && { hidden }) };
+}
+
+/**
+ * Achievements and lifetime stats
+ * Counters and unlocks are persisted; each unlock posts ACHIEVEMENT_UNLOCKED
+ * to the host and queues a toast drawn over the canvas.
+ *
+ * Usage:
+ * ```
+ * const ACHIEVEMENTS: AchievementDefinition[] = [
+ *   { id: 'first-orb', name: 'First Catch', condition: { stat: 'orbs', atLeast: 1 } },
+ *   { id: 'orb-hoarder', name: 'Orb Hoarder', condition: { stat: 'orbs', atLeast: 500 } },
+ *   { id: 'flawless', name: 'Flawless', condition: { event: 'levelComplete', when: (p: { deaths: number }) => p.deaths === 0 } },
+ * ];
+ *
+ * const achievements = useAchievements(ACHIEVEMENTS);
+ *
+ * // On game start
+ * achievements.startRun();
+ *
+ * // In game loop
+ * if (collected) achievements.increment('orbs');
+ * achievements.update(deltaTime);
+ * achievements.render(ctx, { width });
+ * ```
+ */
+export function useAchievements(definitions: AchievementDefinition[], options: AchievementsOptions = {}) {
+  const definitionsRef = useRef(definitions);
+  definitionsRef.current = definitions;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const saved = useRef<AchievementsSave>(ACHIEVEMENTS_SLOT.defaults());
+  const runStats = useRef<Record<string, number>>({});
+  const toasts = useRef<Toast[]>([]);
+  const saveTimer = useRef<number | null>(null);
+  // Bumped on unlock so menus listing achievements re-render
+  const [, setRevision] = useState(0);
+
+  const { post } = useHostChannel();
+
+  const flush = useCallback(() => {
+    if (saveTimer.current !== null) {
+      window.clearTimeout(saveTimer.current);
+      saveTimer.current = null;
+    }
+    saveStorage.save(ACHIEVEMENTS_SLOT, saved.current);
+  }, []);
+
+  // Counters change every frame - batch their writes
+  const scheduleSave = useCallback(() => {
+    if (saveTimer.current !== null) return;
+    saveTimer.current = window.setTimeout(flush, SAVE_DELAY);
+  }, [flush]);
+
+  // Load saved progress; flush pending counters when leaving
+  useEffect(() => {
+    saved.current = saveStorage.load(ACHIEVEMENTS_SLOT);
+    setRevision(r => r + 1);
+
+    const handlePageHide = () => {
+      if (saveTimer.current !== null) flush();
+    };
+    window.addEventListener('pagehide', handlePageHide);
+    return () => {
+      window.removeEventListener('pagehide', handlePageHide);
+      handlePageHide();
+    };
+  }, [flush]);
+
+  const getStats = useCallback((): AchievementStats => ({
+    lifetime: saved.current.stats,
+    run: runStats.current,
+  }), []);
+
+  const grant = useCallback((definition: AchievementDefinition) => {
+    const unlockedAt = Date.now();
+    saved.current = {
+      ...saved.current,
+      unlocked: { ...saved.current.unlocked, [definition.id]: unlockedAt },
+    };
+    flush();
+
+    const achievement: UnlockedAchievement = { ...toInfo(definition), unlockedAt };
+    toasts.current.push({ achievement, age: 0 });
+    post({ type: 'ACHIEVEMENT_UNLOCKED', achievement: toInfo(definition), unlockedAt });
+    optionsRef.current.onUnlock?.(achievement);
+    setRevision(r => r + 1);
+  }, [flush, post]);
+
+  const evaluate = useCallback((event?: AchievementEvent) => {
+    const stats = getStats();
+    for (const definition of definitionsRef.current) {
+      if (saved.current.unlocked[definition.id] !== undefined) continue;
+      if (isMet(definition.condition, stats, event)) grant(definition);
+    }
+  }, [getStats, grant]);
+
+  /**
+   * Clear run counters (call when a run starts)
+   */
+  const startRun = useCallback(() => {
+    runStats.current = {};
+  }, []);
+
+  /**
+   * Add to a counter, e.g. increment('orbs') or increment('distance', 12)
+   */
+  const increment = useCallback((stat: string, amount = 1) => {
+    const lifetime = saved.current.stats;
+    lifetime[stat] = (lifetime[stat] ?? 0) + amount;
+    runStats.current[stat] = (runStats.current[stat] ?? 0) + amount;
+    scheduleSave();
+    evaluate();
+  }, [scheduleSave, evaluate]);
+
+  /**
+   * Keep the highest value seen, e.g. record('bestCombo', combo)
+   */
+  const record = useCallback((stat: string, value: number) => {
+    const lifetime = saved.current.stats;
+    if (value <= (lifetime[stat] ?? -Infinity) && value <= (runStats.current[stat] ?? -Infinity)) return;
+    lifetime[stat] = Math.max(lifetime[stat] ?? value, value);
+    runStats.current[stat] = Math.max(runStats.current[stat] ?? value, value);
+    scheduleSave();
+    evaluate();
+  }, [scheduleSave, evaluate]);
+
+  /**
+   * Report a game event for event conditions, e.g. track('gameOver', result)
+   */
+  const track = useCallback((type: string, payload?: unknown) => {
+    evaluate({ type, payload });
+  }, [evaluate]);
+
+  /**
+   * Unlock an achievement directly; returns false if unknown or already unlocked
+   */
+  const unlock = useCallback((id: string) => {
+    const definition = definitionsRef.current.find(d => d.id === id);
+    if (!definition) {
+      console.warn(`Unknown achievement "${id}"`);
+      return false;
+    }
+    if (saved.current.unlocked[id] !== undefined) return false;
+    grant(definition);
+    return true;
+  }, [grant]);
+
+  /**
+   * Forget all unlocks and counters
+   */
+  const resetAll = useCallback(() => {
+    saved.current = ACHIEVEMENTS_SLOT.defaults();
+    runStats.current = {};
+    toasts.current = [];
+    flush();
+    setRevision(r => r + 1);
+  }, [flush]);
+
+  /**
+   * Age unlock toasts (call in game loop)
+   */
+  const update = useCallback((deltaTime: number) => {
+    const toast = toasts.current[0];
+    if (!toast) return;
+    toast.age += deltaTime;
+    if (toast.age >= (optionsRef.current.toastDuration ?? 3000)) toasts.current.shift();
+  }, []);
+
+  /**
+   * Draw the current unlock toast (call last so it sits above the game)
+   */
+  const render = useCallback((ctx: CanvasRenderingContext2D, toastOptions: AchievementToastOptions) => {
+    const toast = toasts.current[0];
+    if (!toast) return;
+
+    const { width, y = 16, color = '#ffaa00', background = 'rgba(10, 10, 15, 0.9)' } = toastOptions;
+    const duration = optionsRef.current.toastDuration ?? 3000;
+    const fade = Math.min(1, toast.age / TOAST_FADE, (duration - toast.age) / TOAST_FADE);
+    const { name, description } = toast.achievement;
+    const boxWidth = Math.min(width - 32, 320);
+    const boxHeight = description ? 56 : 40;
+    const x = (width - boxWidth) / 2;
+    const top = y - (1 - fade) * 20;
+
+    ctx.save();
+    ctx.globalAlpha = Math.max(0, fade);
+    ctx.fillStyle = background;
+    ctx.fillRect(x, top, boxWidth, boxHeight);
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2;
+    ctx.strokeRect(x, top, boxWidth, boxHeight);
+
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillStyle = color;
+    ctx.font = 'bold 16px system-ui';
+    ctx.fillText(`🏆 ${name}`, width / 2, top + 20);
+    if (description) {
+      ctx.fillStyle = '#8b8b9e';
+      ctx.font = '13px system-ui';
+      ctx.fillText(description, width / 2, top + 40);
+    }
+    ctx.restore();
+  }, []);
+
+  // Stable controller with live getters so the game loop never reads stale values
+  return useMemo(() => ({
+    /** Lifetime and current-run counters */
+    get stats() {
+      return getStats();
+    },
+    /** Unlocked achievements, oldest first */
+    get unlocked(): UnlockedAchievement[] {
+      const { unlocked } = saved.current;
+      return definitionsRef.current
+        .filter(d => unlocked[d.id] !== undefined)
+        .map(d => ({ ...toInfo(d), unlockedAt: unlocked[d.id] }))
+        .sort((a, b) => a.unlockedAt - b.unlockedAt);
+    },
+    /** Every achievement with its unlock time (hidden ones only once unlocked) */
+    get all() {
+      const { unlocked } = saved.current;
+      return definitionsRef.current
+        .filter(d => !d.hidden || unlocked[d.id] !== undefined)
+        .map(d => ({ ...toInfo(d), unlockedAt: unlocked[d.id] as number | undefined }));
+    },
+    isUnlocked: (id: string) => saved.current.unlocked[id] !== undefined,
+    startRun,
+    increment,
+    record,
+    track,
+    unlock,
+    resetAll,
+    update,
+    render,
+  }), [getStats, startRun, increment, record, track, unlock, resetAll, update, render]);
+}
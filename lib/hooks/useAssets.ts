@@ -0,0 +1,87 @@
+import { useState, useEffect, useCallback } from 'react';
+import { AssetManifest, AssetProgress, LoadedAssets, loadAssets } from '../assets';
+
+const EMPTY_ASSETS: LoadedAssets = { images: {}, sprites: {}, audio: {}, fonts: {}, json: {} };
+
+/**
+ * Loading state for a manifest (pass to GameWindow's `loading` prop)
+ */
+export interface AssetLoadState extends AssetProgress {
+  /** Finished, with or without errors */
+  finished: boolean;
+  /** Finished, and either nothing failed or the player chose to play anyway */
+  ready: boolean;
+  /** Load the failed assets again */
+  retry: () => void;
+  /** Play on without the failed assets */
+  dismissErrors: () => void;
+}
+
+/**
+ * Preload a manifest of assets
+ * Files are cached for the session; a remount or another game screen using
+ * the same files is ready straight away.
+ *
+ * Usage:
+ * ```
+ * const ASSETS: AssetManifest = {
+ *   sprites: { hero: { src: '/assets/hero.png', layout: { frameWidth: 32, frameHeight: 32 } } },
+ *   audio: { coin: '/assets/sounds/coin.mp3' },
+ *   json: { level1: '/assets/levels/1.json' },
+ * };
+ *
+ * const { assets, loading } = useAssets(ASSETS);
+ * const game = useGameState({ ready: loading.ready });   // GAME_READY waits for loading (and failed files)
+ *
+ * <GameWindow loading={loading}>...</GameWindow>
+ * drawSprite(assets.sprites.hero, 0, x, y);
+ * ```
+ *
+ * Keep the manifest outside the component (or memoised): a new manifest
+ * object loads again.
+ */
+export function useAssets(manifest: AssetManifest) {
+  const [assets, setAssets] = useState<LoadedAssets>(EMPTY_ASSETS);
+  const [progress, setProgress] = useState<AssetProgress>({ loaded: 0, total: 0, progress: 0, errors: [] });
+  const [finished, setFinished] = useState(false);
+  const [dismissed, setDismissed] = useState(false);
+  const [attempt, setAttempt] = useState(0);
+
+  useEffect(() => {
+    let cancelled = false;
+    setFinished(false);
+    setDismissed(false);
+
+    loadAssets(manifest, next => {
+      if (!cancelled) setProgress(next);
+    }).then(result => {
+      if (cancelled) return;
+      setAssets(result.assets);
+      setFinished(true);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [manifest, attempt]);
+
+  /** Load again - cached files are instant, failed ones are fetched again */
+  const retry = useCallback(() => setAttempt(n => n + 1), []);
+  const dismissErrors = useCallback(() => setDismissed(true), []);
+
+  // Nothing to load: ready from the first render, no loading screen flash
+  const empty = Object.values(manifest).every(group => !group || Object.keys(group).length === 0);
+  const isFinished = finished || empty;
+  // Failed files hold the game back until the player retries or plays anyway
+  const isReady = isFinished && (progress.errors.length === 0 || dismissed || empty);
+  const loading: AssetLoadState = { ...progress, finished: isFinished, ready: isReady, retry, dismissErrors };
+
+  return {
+    /** Loaded assets by name (empty until finished) */
+    assets,
+    loading,
+    ready: isReady,
+    /** Assets that failed to load */
+    errors: progress.errors,
+  };
+}
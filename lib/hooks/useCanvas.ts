@@ -1,9 +1,35 @@
 import { useRef, useEffect, useState, useCallback } from 'react';
-import { DEFAULT_CONFIG, GameConfig } from '../types';
+import { DEFAULT_CONFIG, GameConfig, Vector2D } from '../types';
+import { createViewport, Viewport } from '../viewport';
+import { Camera, createCamera } from '../camera';
+import { DrawSpriteOptions, SpriteSheet, drawSprite as drawSpriteFrame } from '../sprites';
 
 /**
  * Canvas management hook with responsive scaling
  * Handles high-DPI displays and container resizing
+ *
+ * `viewport` maps between screen, canvas and world coordinates for this
+ * canvas; useMouse and the other pointer hooks pick it up automatically.
+ *
+ * `camera` scrolls, zooms and rotates the world. The draw helpers draw in
+ * the context's current space: world coordinates between `camera.apply(ctx)`
+ * and `ctx.restore()`, canvas coordinates (HUD) outside.
+ *
+ * Usage:
+ * ```
+ * const { ctx, camera, drawRect, drawText } = useCanvas(CONFIG);
+ * camera.follow(() => player.current, { smoothing: 0.85 });
+ *
+ * // In game loop
+ * camera.update(deltaTime);
+ * ctx.save();
+ * shake.apply(ctx);       // screen-space shake first, unaffected by zoom
+ * camera.apply(ctx);
+ * drawRect(player.current.x, player.current.y, 32, 32, '#fff');  // world
+ * particles.render(ctx, camera.visibleBounds());
+ * ctx.restore();
+ * drawText(`Score: ${score}`, 20, 20);                            // canvas
+ * ```
  */
 export function useCanvas(config: Partial<GameConfig> = {}) {
   const { width, height } = { ...DEFAULT_CONFIG, ...config };
@@ -11,6 +37,12 @@ export function useCanvas(config: Partial<GameConfig> = {}) {
   const containerRef = useRef<HTMLDivElement>(null);
   const [scale, setScale] = useState(1);
   const [ctx, setCtx] = useState<CanvasRenderingContext2D | null>(null);
+  const viewportRef = useRef<Viewport | null>(null);
+  if (!viewportRef.current) viewportRef.current = createViewport(width, height);
+  const viewport = viewportRef.current;
+  const cameraRef = useRef<Camera | null>(null);
+  if (!cameraRef.current) cameraRef.current = createCamera(viewport);
+  const camera = cameraRef.current;
 
   // Initialize canvas context
   useEffect(() => {
@@ -26,9 +58,12 @@ export function useCanvas(config: Partial<GameConfig> = {}) {
       canvas.style.width = `${width}px`;
       canvas.style.height = `${height}px`;
       context.scale(dpr, dpr);
+      viewport.resize(width, height);
+      viewport.setPixelRatio(dpr);
       setCtx(context);
     }
-  }, [width, height]);
+    return viewport.attach(canvas);
+  }, [width, height, viewport]);
 
   // Handle responsive scaling
   useEffect(() => {
@@ -41,20 +76,24 @@ export function useCanvas(config: Partial<GameConfig> = {}) {
       const scaleX = containerWidth / width;
       const scaleY = containerHeight / height;
       setScale(Math.min(scaleX, scaleY, 1));
+      viewport.measure();
     };
 
     updateScale();
     const observer = new ResizeObserver(updateScale);
     observer.observe(container);
     return () => observer.disconnect();
-  }, [width, height]);
+  }, [width, height, viewport]);
 
-  // Clear the canvas
+  // Clear the whole canvas, whatever camera or shake transform is applied
   const clear = useCallback((color = '#12121a') => {
     if (!ctx) return;
+    ctx.save();
+    ctx.setTransform(viewport.pixelRatio, 0, 0, viewport.pixelRatio, 0, 0);
     ctx.fillStyle = color;
     ctx.fillRect(0, 0, width, height);
-  }, [ctx, width, height]);
+    ctx.restore();
+  }, [ctx, width, height, viewport]);
 
   // Draw a rectangle
   const drawRect = useCallback((
@@ -109,16 +148,37 @@ export function useCanvas(config: Partial<GameConfig> = {}) {
     ctx.fillText(text, x, y);
   }, [ctx]);
 
+  // Draw a sprite sheet frame
+  const drawSprite = useCallback((
+    sheet: SpriteSheet | null,
+    frame: string | number,
+    x: number,
+    y: number,
+    options?: DrawSpriteOptions
+  ) => {
+    if (!ctx || !sheet) return;
+    drawSpriteFrame(ctx, sheet, frame, x, y, options);
+  }, [ctx]);
+
+  // Page pixels (clientX/clientY) <-> world, through the camera
+  const worldToScreen = useCallback((point: Vector2D) => viewport.worldToScreen(point), [viewport]);
+  const screenToWorld = useCallback((point: Vector2D) => viewport.screenToWorld(point), [viewport]);
+
   return {
     canvasRef,
     containerRef,
     ctx,
     scale,
+    viewport,
+    camera,
     width,
     height,
     clear,
     drawRect,
     drawCircle,
     drawText,
+    drawSprite,
+    worldToScreen,
+    screenToWorld,
   };
 }
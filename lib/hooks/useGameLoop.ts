@@ -1,23 +1,121 @@
 import { useEffect, useRef } from 'react';
+import { DEFAULT_CONFIG } from '../types';
+import { createTimeController, TimeController, advanceGameTick } from '../time';
 
-export function useGameLoop(callback: (deltaTime: number) => void, active = true) {
+export { onGameTick } from '../time';
+
+/**
+ * Callbacks for fixed-timestep mode
+ */
+export interface FixedStepCallbacks {
+  /** Advance the simulation by exactly one step (deltaTime in ms) */
+  update: (deltaTime: number, time: TimeController) => void;
+  /** Draw the current state (alpha 0-1 = progress towards the next step) */
+  render: (alpha: number, time: TimeController) => void;
+}
+
+/**
+ * Game loop options
+ */
+export interface GameLoopOptions {
+  /** Simulation steps per second in fixed-step mode */
+  targetFPS?: number;
+  /** Step length in ms (overrides targetFPS) */
+  fixedStep?: number;
+  /** Max update steps per frame before dropping time (prevents spiral of death) */
+  maxSteps?: number;
+}
+
+type LoopCallback = ((deltaTime: number, time: TimeController) => void) | FixedStepCallbacks;
+
+/**
+ * Game loop hook
+ *
+ * Variable step (default) - callback receives the raw frame delta:
+ * ```
+ * useGameLoop((deltaTime) => { ... }, isPlaying);
+ * ```
+ *
+ * Fixed step - update runs at a constant rate, render once per frame:
+ * ```
+ * useGameLoop({
+ *   update: (dt) => { ... },       // dt is always 1000 / targetFPS
+ *   render: (alpha) => { ... },    // interpolate: prev + (curr - prev) * alpha
+ * }, isPlaying, { targetFPS: 120 });
+ * ```
+ *
+ * Time control - deltaTime is game time; the returned controller scales it:
+ * ```
+ * const time = useGameLoop((deltaTime, time) => {
+ *   if (hit) time.hitStop(80);          // freeze update, keep rendering
+ *   particles.update(time.layerDelta('ui'));  // ignores slow-mo
+ * }, isPlaying);
+ *
+ * time.slowMotion(0.3, 1000);           // bullet-time for 1 real second
+ * time.scale = 0.5;                     // global half speed
+ * ```
+ */
+export function useGameLoop(
+  callback: LoopCallback,
+  active = true,
+  options: GameLoopOptions = {}
+) {
   const callbackRef = useRef(callback);
   callbackRef.current = callback;
+  const timeRef = useRef<TimeController | null>(null);
+  if (!timeRef.current) timeRef.current = createTimeController();
+  const time = timeRef.current;
+
+  const {
+    targetFPS = DEFAULT_CONFIG.targetFPS ?? 60,
+    fixedStep = 1000 / targetFPS,
+    maxSteps = 5,
+  } = options;
 
   useEffect(() => {
     if (!active) return;
 
     let lastTime = performance.now();
+    let accumulator = 0;
     let animationId: number;
 
-    const loop = (time: number) => {
-      const delta = time - lastTime;
-      lastTime = time;
-      callbackRef.current(delta);
+    // Skip a step so edges from before the loop started (e.g. the key that
+    // resumed the game) don't register as presses in the first step
+    advanceGameTick(true);
+
+    const loop = (now: number) => {
+      const delta = time.tick(now - lastTime);
+      lastTime = now;
+
+      const cb = callbackRef.current;
+      if (typeof cb === 'function') {
+        advanceGameTick();
+        cb(delta, time);
+      } else {
+        accumulator += delta;
+
+        let steps = 0;
+        while (accumulator >= fixedStep && steps < maxSteps && !time.isHitStopped) {
+          // A replay may skip steps to reproduce the recorded pauses
+          if (advanceGameTick()) {
+            cb.update(fixedStep, time);
+            accumulator -= fixedStep;
+          }
+          steps++;
+        }
+
+        // Too far behind (tab stall, breakpoint) - drop the backlog
+        if (accumulator >= fixedStep && !time.isHitStopped) accumulator = 0;
+
+        cb.render(accumulator / fixedStep, time);
+      }
+
       animationId = requestAnimationFrame(loop);
     };
 
     animationId = requestAnimationFrame(loop);
     return () => cancelAnimationFrame(animationId);
-  }, [active]);
+  }, [active, fixedStep, maxSteps, time]);
+
+  return time;
 }
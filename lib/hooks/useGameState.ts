@@ -1,91 +1,386 @@
-import { useState, useCallback, useEffect } from 'react';
-import { GameState, GameResult, GameMessage } from '../types';
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { GameState, GameStateId, GameResult, HostCommand, LevelDefinition, PROTOCOL_VERSION } from '../types';
+import {
+  createStateMachine,
+  StateDefinition,
+  StateMachineConfig,
+  TransitionDefinition,
+} from '../stateMachine';
+import { defineSlot } from '../storage';
+import { useHostChannel } from './useHostChannel';
+import { useProgression } from './useProgression';
+import { useLives, LivesOptions, CONTINUE_STATE } from './useLives';
+import { useSaveSlot } from './useSaveSlot';
+
+/**
+ * Built-in lifecycle transitions
+ * play() and resume() both enter PLAYING; play() refuses to start from
+ * PLAYING/PAUSED so a paused game can't be restarted by accident.
+ */
+const BUILT_IN_TRANSITIONS: TransitionDefinition[] = [
+  { from: [GameState.IDLE, GameState.GAME_OVER], to: GameState.PLAYING },
+  { from: GameState.PLAYING, to: GameState.PAUSED },
+  { from: GameState.PAUSED, to: GameState.PLAYING },
+  { from: [GameState.PLAYING, GameState.PAUSED], to: GameState.GAME_OVER },
+  { from: '*', to: GameState.IDLE },
+];
+
+/**
+ * Transitions added when lives.continues is set
+ */
+const CONTINUE_TRANSITIONS: TransitionDefinition[] = [
+  { from: GameState.PLAYING, to: CONTINUE_STATE },
+  { from: CONTINUE_STATE, to: GameState.PLAYING },
+  { from: CONTINUE_STATE, to: GameState.GAME_OVER },
+];
+
+const NO_LEVELS: LevelDefinition[] = [];
+
+/**
+ * High score save slot
+ * The pre-namespacing 'highScore' key isn't imported: every game on the
+ * origin wrote to it, so it can't be told apart from another game's score.
+ */
+const HIGH_SCORE_SLOT = defineSlot<number>({
+  key: 'highScore',
+  version: 1,
+  defaults: () => 0,
+  validate: data => typeof data === 'number' && Number.isFinite(data),
+});
+
+/**
+ * Game state options
+ */
+export interface GameStateOptions {
+  /** Pause automatically when the tab is hidden (default: true) */
+  autoPause?: boolean;
+  /** Also pause when the window/iframe loses focus (default: true) */
+  pauseOnBlur?: boolean;
+  /** Resume automatically when an auto-pause ends (default: false) */
+  autoResume?: boolean;
+  /** Called when a game starts (button or host START) - reset your refs here */
+  onStart?: () => void;
+  /** Origins allowed to send host commands (default: any) */
+  allowedOrigins?: string[];
+  /**
+   * Handle a host command before the default handling
+   * Return true if handled (e.g. START -> your own reset + play)
+   */
+  onHostCommand?: (command: HostCommand) => boolean | void;
+  /** Custom states (e.g. countdown, level_complete, cutscene, dying) */
+  states?: Record<string, StateDefinition>;
+  /** Extra allowed transitions, added to the built-in lifecycle */
+  transitions?: TransitionDefinition[];
+  /** Level definitions - enables progression (keep the array stable) */
+  levels?: LevelDefinition[];
+  /** Lives/health settings - losing the last life ends the game */
+  lives?: LivesOptions;
+  /** Called when an extra life is awarded for score */
+  onExtraLife?: (lives: number) => void;
+  /** Whether the game can start yet (e.g. useAssets' `ready`); GAME_READY and host START wait for it (default: true) */
+  ready?: boolean;
+}
 
 /**
  * Game state machine hook
  * Manages game lifecycle and communicates with parent frame
+ *
+ * Custom states:
+ * ```
+ * const game = useGameState({
+ *   states: {
+ *     countdown: { onEnter: () => (countdown.current = 3000) },
+ *   },
+ *   transitions: [
+ *     { from: [GameState.IDLE, GameState.GAME_OVER], to: 'countdown' },
+ *     { from: 'countdown', to: GameState.PLAYING },
+ *   ],
+ * });
+ *
+ * game.transition('countdown');   // then play() when the countdown ends
+ * game.resume();                  // rejected: not paused
+ * ```
  */
-export function useGameState() {
-  const [state, setState] = useState<GameState>(GameState.IDLE);
+export function useGameState(options: GameStateOptions = {}) {
+  const {
+    autoPause = true,
+    pauseOnBlur = true,
+    autoResume = false,
+    allowedOrigins,
+    ready = true,
+  } = options;
+
+  const [state, setState] = useState<GameStateId>(GameState.IDLE);
   const [result, setResult] = useState<GameResult | null>(null);
   const [score, setScore] = useState(0);
-  const [highScore, setHighScore] = useState(0);
+  // Live score: addScore updates it at once, so end() in the same step sees every point
+  const scoreRef = useRef(0);
+  const [highScore, setHighScore] = useSaveSlot(HIGH_SCORE_SLOT);
+  const [muted, setMuted] = useState(false);
+  const [volume, setVolume] = useState(1);
 
-  // Send message to parent frame (fishtank)
-  const postMessage = useCallback((message: GameMessage) => {
-    if (typeof window !== 'undefined' && window.parent !== window) {
-      window.parent.postMessage(message, '*');
-    }
-  }, []);
+  // State machine - definitions are refreshed every render so hooks see fresh closures
+  const machineConfig = useRef<StateMachineConfig>({ initial: GameState.IDLE, transitions: [] });
+  machineConfig.current.states = options.states;
+  machineConfig.current.transitions = [
+    ...BUILT_IN_TRANSITIONS,
+    ...(options.lives?.continues ? CONTINUE_TRANSITIONS : []),
+    ...(options.transitions ?? []),
+  ];
+  const machineRef = useRef<ReturnType<typeof createStateMachine> | null>(null);
+  if (!machineRef.current) machineRef.current = createStateMachine(machineConfig.current);
+  const machine = machineRef.current;
+
+  // Latest values for event listeners registered once
+  const latest = useRef({ score, highScore, muted, volume, ...options });
+  latest.current = { score, highScore, muted, volume, ...options };
+  const autoPaused = useRef(false);
+  const handleCommandRef = useRef<(command: HostCommand) => void>(() => {});
+
+  // Two-way channel with parent frame (fishtank)
+  const { post: postMessage } = useHostChannel({
+    allowedOrigins,
+    onCommand: (command) => handleCommandRef.current(command),
+  });
+
+  // Levels, best scores, stars and unlocks
+  const isRunning = useCallback(() => machine.current === GameState.PLAYING, [machine]);
+  const progression = useProgression({
+    levels: options.levels ?? NO_LEVELS,
+    post: postMessage,
+    isRunning,
+  });
+  const { announceLevel, levelIndex } = progression;
+
+  // Lives, i-frames and continues - the last life lost ends the game
+  const lives = useLives(options.lives, {
+    onGameOver: () => end({}),
+    onContinueOffer: () => transition(CONTINUE_STATE),
+    onExtraLife: (count) => latest.current.onExtraLife?.(count),
+  });
+  const hasLives = !!options.lives;
 
-  // Load high score from localStorage
+  // Tell the host we're ready (once, after loading)
+  const announcedReady = useRef(false);
   useEffect(() => {
-    if (typeof window !== 'undefined') {
-      const saved = localStorage.getItem('highScore');
-      if (saved) setHighScore(parseInt(saved, 10));
-      postMessage({ type: 'GAME_READY' });
+    if (!ready || announcedReady.current) return;
+    announcedReady.current = true;
+    postMessage({ type: 'GAME_READY', protocolVersion: PROTOCOL_VERSION });
+  }, [ready, postMessage]);
+
+  /**
+   * Move to any state allowed by the transition table
+   */
+  const transition = useCallback((to: GameStateId, payload?: unknown) => {
+    const from = machine.current;
+    if (!machine.transition(to, payload)) {
+      console.warn(`Illegal state transition: ${from} -> ${to}`);
+      return false;
     }
-  }, [postMessage]);
+    setState(machine.current);
+    return true;
+  }, [machine]);
+
+  const can = useCallback((to: GameStateId, payload?: unknown) => machine.can(to, payload), [machine]);
 
   const play = useCallback(() => {
-    setState(GameState.PLAYING);
+    const from = machine.current;
+    // Starting from PAUSED would wipe the run - that's resume()'s job
+    if (from === GameState.PAUSED || !machine.can(GameState.PLAYING)) {
+      console.warn(`Illegal state transition: ${from} -> ${GameState.PLAYING}`);
+      return false;
+    }
+
+    lives.reset();
+    latest.current.onStart?.();
+    transition(GameState.PLAYING);
+    scoreRef.current = 0;
     setScore(0);
     setResult(null);
     postMessage({ type: 'GAME_START' });
-  }, [postMessage]);
+    announceLevel();
+    return true;
+  }, [machine, transition, postMessage, announceLevel, lives]);
 
   const pause = useCallback(() => {
-    setState(GameState.PAUSED);
+    if (machine.current !== GameState.PLAYING || !transition(GameState.PAUSED)) return false;
     postMessage({ type: 'GAME_PAUSE' });
-  }, [postMessage]);
+    return true;
+  }, [machine, transition, postMessage]);
 
   const resume = useCallback(() => {
-    setState(GameState.PLAYING);
+    if (machine.current !== GameState.PAUSED) {
+      console.warn(`Illegal state transition: ${machine.current} -> ${GameState.PLAYING} (not paused)`);
+      return false;
+    }
+    if (!transition(GameState.PLAYING)) return false;
+    autoPaused.current = false;
     postMessage({ type: 'GAME_RESUME' });
-  }, [postMessage]);
+    return true;
+  }, [machine, transition, postMessage]);
+
+  // Auto-pause when the player can't see or isn't focused on the game
+  useEffect(() => {
+    if (!autoPause || typeof window === 'undefined') return;
+
+    const handleHide = () => {
+      if (machine.current !== GameState.PLAYING) return;
+      autoPaused.current = true;
+      pause();
+    };
+
+    const handleShow = () => {
+      if (!autoPaused.current || document.hidden) return;
+      autoPaused.current = false;
+      if (autoResume && machine.current === GameState.PAUSED) resume();
+    };
+
+    const handleVisibility = () => {
+      if (document.hidden) handleHide();
+      else handleShow();
+    };
+
+    document.addEventListener('visibilitychange', handleVisibility);
+    window.addEventListener('pagehide', handleHide);
+    if (pauseOnBlur) {
+      window.addEventListener('blur', handleHide);
+      window.addEventListener('focus', handleShow);
+    }
+
+    return () => {
+      document.removeEventListener('visibilitychange', handleVisibility);
+      window.removeEventListener('pagehide', handleHide);
+      window.removeEventListener('blur', handleHide);
+      window.removeEventListener('focus', handleShow);
+    };
+  }, [autoPause, pauseOnBlur, autoResume, machine, pause, resume]);
 
   const reset = useCallback(() => {
-    setState(GameState.IDLE);
+    if (!transition(GameState.IDLE)) return false;
+    scoreRef.current = 0;
     setScore(0);
     setResult(null);
-  }, []);
+    return true;
+  }, [transition]);
 
   const end = useCallback((gameResult: GameResult) => {
-    const finalScore = gameResult.score ?? score;
+    // Rejects a second end() in the same frame as well as end() from IDLE
+    if (!transition(GameState.GAME_OVER)) return false;
+
+    const finalScore = gameResult.score ?? scoreRef.current;
     const newHighScore = Math.max(finalScore, highScore);
 
     if (newHighScore > highScore) {
       setHighScore(newHighScore);
-      if (typeof window !== 'undefined') {
-        localStorage.setItem('highScore', newHighScore.toString());
-      }
     }
 
-    const finalResult = { ...gameResult, score: finalScore, highScore: newHighScore };
+    const finalResult: GameResult = { ...gameResult, score: finalScore, highScore: newHighScore };
+    if (finalResult.level === undefined && progression.levels.length > 0) {
+      finalResult.level = levelIndex + 1;
+    }
+    if (hasLives) {
+      finalResult.metadata = { ...lives.stats(), ...gameResult.metadata };
+    }
     setResult(finalResult);
-    setState(GameState.GAME_OVER);
     postMessage({ type: 'GAME_OVER', result: finalResult });
-  }, [score, highScore, postMessage]);
+    return true;
+  }, [highScore, setHighScore, levelIndex, progression.levels, hasLives, lives, transition, postMessage]);
+
+  // Extra lives for score thresholds
+  useEffect(() => {
+    if (hasLives) lives.checkScore(score);
+  }, [hasLives, lives, score]);
+
+  /**
+   * Accept the continue offer and keep playing
+   */
+  const acceptContinue = useCallback(() => {
+    if (machine.current !== CONTINUE_STATE || !lives.applyContinue()) return false;
+    return transition(GameState.PLAYING);
+  }, [machine, lives, transition]);
+
+  /**
+   * Decline the continue offer and end the game
+   */
+  const declineContinue = useCallback(() => {
+    if (machine.current !== CONTINUE_STATE) return false;
+    return end({});
+  }, [machine, end]);
 
   const addScore = useCallback((points: number) => {
-    setScore(prev => {
-      const newScore = prev + points;
-      postMessage({ type: 'SCORE_UPDATE', score: newScore });
-      return newScore;
-    });
+    scoreRef.current += points;
+    setScore(scoreRef.current);
+    postMessage({ type: 'SCORE_UPDATE', score: scoreRef.current });
   }, [postMessage]);
 
+  // Inbound host commands - every command is acknowledged
+  handleCommandRef.current = (command: HostCommand) => {
+    const current = machine.current;
+    let error: string | undefined;
+
+    if (!latest.current.onHostCommand?.(command)) {
+      switch (command.type) {
+        case 'START':
+          if (latest.current.ready === false) error = 'Not ready (loading, or asset errors on screen)';
+          else if (!play()) error = `Cannot start from ${current}`;
+          break;
+        case 'PAUSE':
+          if (!pause()) error = `Cannot pause from ${current}`;
+          break;
+        case 'RESUME':
+          if (!resume()) error = `Cannot resume from ${current}`;
+          break;
+        case 'RESET':
+          if (!reset()) error = `Cannot reset from ${current}`;
+          break;
+        case 'MUTE':
+          setMuted(command.muted);
+          break;
+        case 'SET_VOLUME':
+          setVolume(Math.max(0, Math.min(1, command.volume)));
+          break;
+        case 'LEADERBOARD_DATA':
+          // Consumed by useLeaderboard({ source: 'host' })
+          break;
+        case 'REQUEST_STATE': {
+          const { highScore, muted, volume } = latest.current;
+          postMessage({ type: 'GAME_STATE', state: current, score: scoreRef.current, highScore, muted, volume });
+          break;
+        }
+      }
+    }
+
+    postMessage({ type: 'COMMAND_ACK', command: command.type, id: command.id, ok: !error, error });
+  };
+
   return {
     state,
     result,
     score,
     highScore,
+    muted,
+    volume,
     play,
     pause,
     resume,
     reset,
     end,
     addScore,
+    transition,
+    can,
+    levels: progression.levels,
+    levelIndex,
+    currentLevel: progression.currentLevel,
+    levelProgress: progression.progress,
+    startLevel: progression.startLevel,
+    completeLevel: progression.completeLevel,
+    nextLevel: progression.nextLevel,
+    isLevelUnlocked: progression.isUnlocked,
+    resetProgress: progression.resetProgress,
+    lives,
+    acceptContinue,
+    declineContinue,
+    isContinueOffered: state === CONTINUE_STATE,
     isPlaying: state === GameState.PLAYING,
     isPaused: state === GameState.PAUSED,
     isGameOver: state === GameState.GAME_OVER,
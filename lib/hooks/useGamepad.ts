@@ -0,0 +1,61 @@
+import { useEffect, useRef } from 'react';
+import { gamepadStore, GamepadStore, PadState } from '../gamepad';
+
+/**
+ * Gamepad options
+ */
+export interface GamepadOptions {
+  /** Radial stick deadzone, 0-1 (default: 0.15) */
+  deadzone?: number;
+  /** A pad was connected */
+  onConnect?: (pad: PadState) => void;
+  /** A pad was disconnected */
+  onDisconnect?: (pad: PadState) => void;
+}
+
+/**
+ * Gamepad input hook
+ * Pads are polled before every useGameLoop step; reads never re-render.
+ *
+ * Usage:
+ * ```
+ * const gamepad = useGamepad({ onConnect: (pad) => console.log(pad.id) });
+ *
+ * // In game loop
+ * const pad = gamepad.pad();              // first connected pad, or null
+ * if (pad) {
+ *   player.x += pad.leftStick.x * speed;
+ *   if (pad.justPressed(GamepadButton.A)) jump();
+ * }
+ * gamepad.rumble(0, { duration: 150, strong: 0.8 });
+ * ```
+ *
+ * Test without hardware: `const fake = createFakeGamepad(); fake.press(GamepadButton.A);`
+ */
+export function useGamepad(options: GamepadOptions = {}): GamepadStore {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+  const { deadzone } = options;
+
+  useEffect(() => {
+    if (deadzone !== undefined) gamepadStore.deadzone = deadzone;
+  }, [deadzone]);
+
+  useEffect(() => {
+    let previous = gamepadStore.pads;
+    const unsubscribe = gamepadStore.subscribe(() => {
+      const current = gamepadStore.pads;
+      current.filter(pad => !previous.includes(pad)).forEach(pad => optionsRef.current.onConnect?.(pad));
+      previous.filter(pad => !current.includes(pad)).forEach(pad => optionsRef.current.onDisconnect?.(pad));
+      previous = current;
+    });
+    const disconnect = gamepadStore.connect();
+
+    return () => {
+      unsubscribe();
+      disconnect();
+    };
+  }, []);
+
+  return gamepadStore;
+}
@@ -0,0 +1,115 @@
+import { useCallback, useEffect, useRef } from 'react';
+import { GameMessage, HostCommand } from '../types';
+
+/**
+ * Host channel options
+ */
+export interface HostChannelOptions {
+  /**
+   * Origins allowed to send commands
+   * Set this to the fishtank origin(s) in production builds. Channels without
+   * their own list use the last one given to any channel (e.g. useGameState's),
+   * so one allow-list covers every hook; with none anywhere, any origin is allowed.
+   */
+  allowedOrigins?: string[];
+  /** Called for every valid command from an allowed origin */
+  onCommand?: (command: HostCommand, origin: string) => void;
+}
+
+/** Origin of the last verified host message, shared by every channel */
+let hostOrigin: string | null = null;
+
+/** Allow-list shared with channels that don't have their own */
+let sharedAllowedOrigins: string[] | null = null;
+
+/** Check an origin against the allow-list ('*' matches anything) */
+export function isOriginAllowed(origin: string, allowedOrigins: string[] = ['*']): boolean {
+  return allowedOrigins.includes('*') || allowedOrigins.includes(origin);
+}
+
+/** Validate an incoming message and narrow it to a HostCommand */
+export function isHostCommand(data: unknown): data is HostCommand {
+  if (!data || typeof data !== 'object') return false;
+  const message = data as Record<string, unknown>;
+  if (message.id !== undefined && typeof message.id !== 'string') return false;
+
+  switch (message.type) {
+    case 'START':
+    case 'PAUSE':
+    case 'RESUME':
+    case 'RESET':
+    case 'REQUEST_STATE':
+      return true;
+    case 'MUTE':
+      return typeof message.muted === 'boolean';
+    case 'SET_VOLUME':
+      return typeof message.volume === 'number' && Number.isFinite(message.volume);
+    case 'LEADERBOARD_DATA':
+      return typeof message.table === 'string' && Array.isArray(message.entries);
+    default:
+      return false;
+  }
+}
+
+/**
+ * Two-way postMessage channel with the parent frame (fishtank)
+ *
+ * Usage:
+ * ```
+ * const { post } = useHostChannel({
+ *   allowedOrigins: ['https://fishtank.example'],
+ *   onCommand: (command) => { ... },
+ * });
+ *
+ * post({ type: 'SCORE_UPDATE', score: 100 });
+ * ```
+ *
+ * Outbound messages target the origin of the last verified host message,
+ * falling back to the single allowed origin, or '*' when none is known.
+ */
+export function useHostChannel(options: HostChannelOptions = {}) {
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Share an explicit allow-list with every other channel
+  const allowKey = options.allowedOrigins?.join(' ');
+  useEffect(() => {
+    const own = optionsRef.current.allowedOrigins;
+    if (!own) return;
+    sharedAllowedOrigins = own;
+    return () => {
+      if (sharedAllowedOrigins === own) sharedAllowedOrigins = null;
+    };
+  }, [allowKey]);
+
+  // Send message to parent frame (fishtank)
+  const post = useCallback((message: GameMessage) => {
+    if (typeof window === 'undefined' || window.parent === window) return;
+
+    const allowed = (optionsRef.current.allowedOrigins ?? sharedAllowedOrigins ?? []).filter(o => o !== '*');
+    const targetOrigin = hostOrigin ?? (allowed.length === 1 ? allowed[0] : '*');
+    window.parent.postMessage(message, targetOrigin);
+  }, []);
+
+  // Listen for host commands
+  useEffect(() => {
+    if (typeof window === 'undefined') return;
+
+    const handleMessage = (e: MessageEvent) => {
+      if (e.source !== window.parent || e.source === window) return;
+      const own = optionsRef.current.allowedOrigins;
+      if (!isOriginAllowed(e.origin, own ?? sharedAllowedOrigins ?? undefined)) return;
+      if (!isHostCommand(e.data)) return;
+
+      // Only a channel with its own allow-list decides where replies go.
+      // Sandboxed hosts report an opaque 'null' origin that can't be targeted
+      if (own && e.origin !== 'null') hostOrigin = e.origin;
+      optionsRef.current.onCommand?.(e.data, e.origin);
+    };
+
+    window.addEventListener('message', handleMessage);
+    return () => window.removeEventListener('message', handleMessage);
+  }, []);
+
+  return { post };
+}
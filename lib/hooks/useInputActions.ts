@@ -0,0 +1,142 @@
+import { useRef, useEffect, useMemo, RefObject } from 'react';
+import { Vector2D } from '../types';
+import { ActionMap, ActionState, RawInput, PRESS_THRESHOLD, readAction } from '../input';
+import { PointerInfo, PointerStore, createPointerStore, keyboardStore } from '../inputStore';
+import { getGamepads } from '../gamepad';
+import { getViewport } from '../viewport';
+import { onGameTick } from './useGameLoop';
+
+/**
+ * Input actions options
+ */
+export interface InputActionsOptions {
+  /** Element touch zones and mouse presses are relative to (default: window) */
+  element?: RefObject<HTMLElement | null>;
+  /**
+   * Pointer store to read mouse buttons and touches from, e.g. useMouse(canvasRef)
+   * (default: one the hook tracks `element` with, exposed as `input.pointer`)
+   */
+  pointer?: PointerStore;
+}
+
+/** Pointer position as a fraction (0-1) of the store's element, or the window */
+function toFraction(store: PointerStore, position: Vector2D): Vector2D {
+  const viewport = getViewport(store.element);
+  if (viewport) return { x: position.x / viewport.width, y: position.y / viewport.height };
+  const rect = store.element
+    ? store.element.getBoundingClientRect()
+    : { width: window.innerWidth, height: window.innerHeight };
+  return { x: position.x / (rect.width || 1), y: position.y / (rect.height || 1) };
+}
+
+interface MutableActionState {
+  value: number;
+  pressed: boolean;
+  justPressed: boolean;
+  justReleased: boolean;
+}
+
+/**
+ * Device-independent input actions
+ * Reads keyboard, mouse, touch zones and gamepads into named actions.
+ * Input is tracked in refs, so it never re-renders the component.
+ *
+ * Actions update automatically before every useGameLoop step. Presses that
+ * start and end between two steps still count as pressed for one step, so
+ * taps are never lost. Mouse and touch go through a pointer store like
+ * useMouse's: pass `input.pointer` to useReplay to record them.
+ *
+ * Usage:
+ * ```
+ * const ACTIONS = {
+ *   moveX: { negative: ['ArrowLeft', 'KeyA'], positive: ['ArrowRight', 'KeyD'], gamepadAxis: GamepadAxis.LeftX },
+ *   fire: { bindings: ['Space', { mouse: 0 }, { gamepad: GamepadButton.A }] },
+ *   jump: { bindings: ['ArrowUp', { touch: { x: 0.5, y: 0, width: 0.5, height: 1 } }] },
+ * };
+ *
+ * const input = useInputActions(ACTIONS, { element: canvasRef });
+ *
+ * // In game loop
+ * player.x += input.actions.moveX.value * speed;
+ * if (input.actions.fire.justPressed) shoot();
+ * ```
+ */
+export function useInputActions<T extends ActionMap>(actions: T, options: InputActionsOptions = {}) {
+  const actionsRef = useRef(actions);
+  actionsRef.current = actions;
+
+  const ownPointerRef = useRef<PointerStore | null>(null);
+  if (!ownPointerRef.current) ownPointerRef.current = createPointerStore();
+  const ownPointer = ownPointerRef.current;
+  const pointerRef = useRef(options.pointer ?? ownPointer);
+  pointerRef.current = options.pointer ?? ownPointer;
+
+  const states = useRef<Record<string, MutableActionState>>({});
+
+  // Every declared action has a state from the first render on
+  for (const name of Object.keys(actions)) {
+    states.current[name] ??= { value: 0, pressed: false, justPressed: false, justReleased: false };
+  }
+
+  const { element, pointer } = options;
+
+  useEffect(() => keyboardStore.connect(), []);
+
+  // Track pointers ourselves unless the game shares a store
+  useEffect(() => {
+    if (!pointer) return ownPointer.connect(element?.current ?? null);
+  }, [element, pointer, ownPointer]);
+
+  useEffect(() => () => ownPointer.dispose(), [ownPointer]);
+
+  // Stable controller; action states are mutated in place by update()
+  const controller = useMemo(() => ({
+    /** Pointer store mouse and touch bindings read (pass it to useReplay) */
+    get pointer() {
+      return pointerRef.current;
+    },
+
+    /** Current state of every action, e.g. input.actions.fire.pressed */
+    actions: states.current as Record<keyof T & string, ActionState>,
+
+    /**
+     * Sample devices and update every action
+     * Runs automatically before each game-loop step; call it yourself only
+     * when reading actions outside useGameLoop.
+     */
+    update: () => {
+      const store = pointerRef.current;
+      const mouseButtons = new Set<number>();
+      const touches: Vector2D[] = [];
+      // Pointers pressed since the last step count as held for this step, too
+      const addPointer = (p: PointerInfo) => {
+        if (p.type === 'touch') touches.push(toFraction(store, p.position));
+        else mouseButtons.add(p.button);
+      };
+      store.pointers.forEach(addPointer);
+      store.pressed.forEach(addPointer);
+
+      const input: RawInput = {
+        // Keys tapped since the last step count as held for this step
+        keys: { has: code => keyboardStore.isPressed(code) || keyboardStore.justPressed(code) },
+        mouseButtons,
+        touches,
+        gamepads: getGamepads(),
+      };
+
+      for (const [name, definition] of Object.entries(actionsRef.current)) {
+        const state = states.current[name];
+        const value = readAction(definition, input);
+        const pressed = Math.abs(value) >= PRESS_THRESHOLD;
+        state.justPressed = pressed && !state.pressed;
+        state.justReleased = !pressed && state.pressed;
+        state.pressed = pressed;
+        state.value = value;
+      }
+    },
+  }), []);
+
+  useEffect(() => onGameTick(controller.update), [controller]);
+
+  return controller;
+}
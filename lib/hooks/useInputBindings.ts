@@ -0,0 +1,109 @@
+import { useMemo, useCallback } from 'react';
+import {
+  ActionMap,
+  BindingConflict,
+  BindingList,
+  BindingOverrides,
+  InputBinding,
+  applyBindingOverrides,
+  findBindingConflicts,
+  sanitizeBindingOverrides,
+} from '../input';
+import { defineSlot } from '../storage';
+import { useSaveSlot } from './useSaveSlot';
+
+/**
+ * Save slot holding the player's rebound controls
+ */
+export const INPUT_BINDINGS_SLOT = defineSlot<BindingOverrides>({
+  key: 'input-bindings',
+  version: 1,
+  defaults: () => ({}),
+  validate: data => typeof data === 'object' && data !== null && !Array.isArray(data),
+});
+
+/**
+ * One binding-list change
+ */
+export interface BindingChange<T extends ActionMap = ActionMap> {
+  action: keyof T & string;
+  list: BindingList;
+  bindings: InputBinding[];
+}
+
+/**
+ * Rebindable actions returned by useInputBindings
+ */
+export interface InputBindings<T extends ActionMap = ActionMap> {
+  /** Effective actions (defaults with the player's bindings applied) */
+  actions: T;
+  defaults: T;
+  /** Bindings used by more than one action */
+  conflicts: BindingConflict[];
+  /** Whether the player changed anything */
+  isCustomized: boolean;
+  /** Replace one list of an action */
+  setBindings: (action: keyof T & string, list: BindingList, bindings: InputBinding[]) => void;
+  /** Apply several list changes at once (e.g. moving a binding between actions) */
+  setMany: (changes: BindingChange<T>[]) => void;
+  /** Restore one action's default bindings */
+  resetAction: (action: keyof T & string) => void;
+  /** Restore every default binding */
+  resetAll: () => void;
+}
+
+/**
+ * Player-rebindable input actions
+ * Layers the player's bindings (saved per game) over the default actions.
+ * Pass `bindings.actions` to useInputActions and `bindings` to the
+ * ControlsSettings screen.
+ *
+ * Usage:
+ * ```
+ * const bindings = useInputBindings(ACTIONS);
+ * const input = useInputActions(bindings.actions);
+ *
+ * <ControlsSettings bindings={bindings} onClose={...} />
+ * ```
+ */
+export function useInputBindings<T extends ActionMap>(defaults: T): InputBindings<T> {
+  const [saved, setOverrides] = useSaveSlot(INPUT_BINDINGS_SLOT);
+  // Malformed lists in the save fall back to the defaults
+  const overrides = useMemo(() => sanitizeBindingOverrides(saved), [saved]);
+
+  const actions = useMemo(() => applyBindingOverrides(defaults, overrides), [defaults, overrides]);
+  const conflicts = useMemo(() => findBindingConflicts(actions), [actions]);
+
+  const setBindings = useCallback((action: keyof T & string, list: BindingList, bindings: InputBinding[]) => {
+    setOverrides(prev => ({ ...prev, [action]: { ...prev[action], [list]: bindings } }));
+  }, [setOverrides]);
+
+  const setMany = useCallback((changes: BindingChange<T>[]) => {
+    setOverrides(prev => changes.reduce<BindingOverrides>(
+      (next, { action, list, bindings }) => ({ ...next, [action]: { ...next[action], [list]: bindings } }),
+      prev
+    ));
+  }, [setOverrides]);
+
+  const resetAction = useCallback((action: keyof T & string) => {
+    setOverrides(prev => {
+      const next = { ...prev };
+      delete next[action];
+      return next;
+    });
+  }, [setOverrides]);
+
+  const resetAll = useCallback(() => setOverrides({}), [setOverrides]);
+
+  return {
+    actions,
+    defaults,
+    conflicts,
+    isCustomized: Object.keys(overrides).length > 0,
+    setBindings,
+    setMany,
+    resetAction,
+    resetAll,
+  };
+}
+
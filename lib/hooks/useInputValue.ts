@@ -0,0 +1,21 @@
+import { useCallback, useSyncExternalStore } from 'react';
+import { InputStore } from '../inputStore';
+
+/**
+ * Re-render when a value derived from an input store changes
+ * For UI outside the game loop - the loop itself should read stores directly.
+ * The selector must return a primitive (or a stable reference).
+ *
+ * Usage:
+ * ```
+ * const keyboard = useKeyboard();
+ * const holdingSkip = useInputValue(keyboard, k => k.isPressed('Space'));
+ *
+ * const mouse = useMouse(canvasRef);
+ * const hovering = useInputValue(mouse, m => m.position.x > width / 2);
+ * ```
+ */
+export function useInputValue<S extends InputStore, T>(store: S, selector: (store: S) => T): T {
+  const getSnapshot = useCallback(() => selector(store), [store, selector]);
+  return useSyncExternalStore(store.subscribe, getSnapshot, getSnapshot);
+}
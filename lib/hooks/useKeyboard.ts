@@ -1,28 +1,27 @@
-import { useState, useEffect } from 'react';
+import { useEffect } from 'react';
+import { keyboardStore } from '../inputStore';
 
+/**
+ * Keyboard input hook
+ *
+ * Usage:
+ * ```
+ * const { isPressed, justPressed } = useKeyboard();
+ *
+ * // In game loop
+ * if (isPressed('ArrowLeft')) moveLeft();
+ * if (justPressed('Space')) jump();  // once per press, even for taps between frames
+ * ```
+ *
+ * Returns the shared keyboard store: reads are synchronous and key events
+ * never re-render the component. To re-render on input, use
+ * `useInputValue(keyboard, k => k.isPressed('Space'))`.
+ *
+ * justPressed/justReleased are latched per useGameLoop step: an edge is
+ * visible for exactly one step, so a key pressed and released between two
+ * frames still reports justPressed (and justReleased) once.
+ */
 export function useKeyboard() {
-  const [keys, setKeys] = useState<Set<string>>(new Set());
-
-  useEffect(() => {
-    const handleDown = (e: KeyboardEvent) => {
-      setKeys(prev => new Set(prev).add(e.code));
-    };
-    const handleUp = (e: KeyboardEvent) => {
-      setKeys(prev => {
-        const next = new Set(prev);
-        next.delete(e.code);
-        return next;
-      });
-    };
-
-    window.addEventListener('keydown', handleDown);
-    window.addEventListener('keyup', handleUp);
-    return () => {
-      window.removeEventListener('keydown', handleDown);
-      window.removeEventListener('keyup', handleUp);
-    };
-  }, []);
-
-  const isPressed = (code: string) => keys.has(code);
-  return { keys, isPressed };
+  useEffect(() => keyboardStore.connect(), []);
+  return keyboardStore;
 }
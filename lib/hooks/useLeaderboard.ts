@@ -0,0 +1,159 @@
+import { useState, useEffect, useCallback } from 'react';
+import { GameResult, LeaderboardEntry } from '../types';
+import { defineSlot, saveStorage } from '../storage';
+import { useHostChannel } from './useHostChannel';
+
+/**
+ * Leaderboard options
+ */
+export interface LeaderboardOptions {
+  /** Score table, e.g. per game mode or difficulty (default: 'default') */
+  table?: string;
+  /** Entries kept per table (default: 10) */
+  size?: number;
+  /**
+   * Where scores come from (default: 'local')
+   * 'host' asks the fishtank host for the table and submits runs to it,
+   * showing the local table until the host replies.
+   */
+  source?: 'local' | 'host';
+  /** Origins allowed to send leaderboard data (default: useGameState's allowedOrigins) */
+  allowedOrigins?: string[];
+}
+
+interface LeaderboardSave {
+  tables: Record<string, LeaderboardEntry[]>;
+  /** Last initials entered, to pre-fill the next entry */
+  lastInitials: string;
+}
+
+/**
+ * Leaderboard save slot
+ */
+const LEADERBOARD_SLOT = defineSlot<LeaderboardSave>({
+  key: 'leaderboard',
+  version: 1,
+  defaults: () => ({ tables: {}, lastInitials: 'AAA' }),
+  validate: data => {
+    const save = data as LeaderboardSave;
+    return !!save && typeof save.tables === 'object' && typeof save.lastInitials === 'string';
+  },
+});
+
+/** Normalise initials to 1-3 uppercase letters/digits */
+export function normalizeInitials(initials: string): string {
+  const cleaned = initials.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+  return cleaned || 'AAA';
+}
+
+/** Check an entry received from outside (host data) */
+function isEntry(entry: unknown): entry is LeaderboardEntry {
+  const e = entry as LeaderboardEntry;
+  return !!e && typeof e.initials === 'string' && typeof e.score === 'number' && typeof e.date === 'number';
+}
+
+/** Highest score first; ties go to the earlier run */
+function sortEntries(entries: LeaderboardEntry[]): LeaderboardEntry[] {
+  return [...entries].sort((a, b) => b.score - a.score || a.date - b.date);
+}
+
+/**
+ * Local top-N leaderboard
+ *
+ * Usage:
+ * ```
+ * const leaderboard = useLeaderboard({ table: 'hard', size: 10 });
+ *
+ * if (leaderboard.qualifies(result.score)) {
+ *   // show initials entry, then:
+ *   const rank = leaderboard.submit('ACE', result);
+ * }
+ * ```
+ */
+export function useLeaderboard(options: LeaderboardOptions = {}) {
+  const { table = 'default', size = 10, source = 'local', allowedOrigins } = options;
+  const [save, setSave] = useState<LeaderboardSave>(() => LEADERBOARD_SLOT.defaults());
+  const [hostEntries, setHostEntries] = useState<LeaderboardEntry[] | null>(null);
+
+  useEffect(() => {
+    setSave(saveStorage.load(LEADERBOARD_SLOT));
+  }, []);
+
+  const { post } = useHostChannel({
+    allowedOrigins,
+    onCommand: (command) => {
+      if (source !== 'host' || command.type !== 'LEADERBOARD_DATA' || command.table !== table) return;
+      setHostEntries(sortEntries(command.entries.filter(isEntry)).slice(0, size));
+    },
+  });
+
+  // Ask the host for its table
+  useEffect(() => {
+    setHostEntries(null);
+    if (source === 'host') post({ type: 'LEADERBOARD_REQUEST', table });
+  }, [source, table, post]);
+
+  const localEntries = save.tables[table] ?? [];
+  const entries = hostEntries ?? localEntries;
+
+  /**
+   * Whether a score would make the table
+   */
+  const qualifies = useCallback((score: number | undefined) => {
+    if (score === undefined || score <= 0) return false;
+    return entries.length < size || score > entries[entries.length - 1].score;
+  }, [entries, size]);
+
+  /**
+   * Add a run to the table; returns its 1-based rank, or null if it didn't place
+   */
+  const submit = useCallback((initials: string, result: GameResult): number | null => {
+    const entry: LeaderboardEntry = {
+      initials: normalizeInitials(initials),
+      score: result.score ?? 0,
+      date: Date.now(),
+      ...(result.level !== undefined && { level: result.level }),
+      ...(result.metadata && { metadata: result.metadata }),
+    };
+
+    const current = saveStorage.load(LEADERBOARD_SLOT);
+    const table_ = sortEntries([...(current.tables[table] ?? []), entry]).slice(0, size);
+    const next: LeaderboardSave = {
+      tables: { ...current.tables, [table]: table_ },
+      lastInitials: entry.initials,
+    };
+    saveStorage.save(LEADERBOARD_SLOT, next);
+    setSave(next);
+
+    if (source === 'host') {
+      post({ type: 'LEADERBOARD_SUBMIT', table, entry });
+      setHostEntries(prev => prev && sortEntries([...prev, entry]).slice(0, size));
+    }
+
+    const rank = sortEntries([...entries, entry]).slice(0, size).indexOf(entry);
+    return rank === -1 ? null : rank + 1;
+  }, [entries, source, table, size, post]);
+
+  /**
+   * Clear the local table
+   */
+  const clear = useCallback(() => {
+    const current = saveStorage.load(LEADERBOARD_SLOT);
+    const tables = { ...current.tables };
+    delete tables[table];
+    const next = { ...current, tables };
+    saveStorage.save(LEADERBOARD_SLOT, next);
+    setSave(next);
+  }, [table]);
+
+  return {
+    table,
+    entries,
+    tables: Object.keys(save.tables),
+    lastInitials: save.lastInitials,
+    isHostData: hostEntries !== null,
+    qualifies,
+    submit,
+    clear,
+  };
+}
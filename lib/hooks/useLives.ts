@@ -0,0 +1,313 @@
+import { useRef, useCallback, useMemo } from 'react';
+
+/**
+ * Custom game state entered while a continue is on offer
+ */
+export const CONTINUE_STATE = 'continue';
+
+/**
+ * Lives and health options
+ */
+export interface LivesOptions {
+  /** Starting lives (default: 3) */
+  lives?: number;
+  /** Maximum lives, including extra lives (default: 5) */
+  maxLives?: number;
+  /** Health per life; 1 = one-hit deaths (default: 1) */
+  health?: number;
+  /** Invincibility after taking damage, in ms (default: 2000) */
+  invincibility?: number;
+  /** Award an extra life every N points, or at each listed score */
+  extraLifeEvery?: number | number[];
+  /** Continues offered per run when the last life is lost (default: 0) */
+  continues?: number;
+}
+
+/**
+ * Callbacks fired by the lives module
+ */
+export interface LivesCallbacks {
+  /** Last life lost and no continue left */
+  onGameOver?: () => void;
+  /** Last life lost and a continue is available */
+  onContinueOffer?: () => void;
+  /** Extra life awarded for reaching a score threshold */
+  onExtraLife?: (lives: number) => void;
+}
+
+/**
+ * Outcome of a hit
+ */
+export type HitResult = 'ignored' | 'damaged' | 'lifeLost' | 'continue' | 'gameOver';
+
+/**
+ * Run statistics reported in GameResult.metadata
+ */
+export interface LivesStats {
+  livesRemaining: number;
+  livesLost: number;
+  extraLivesAwarded: number;
+  continuesUsed: number;
+}
+
+/**
+ * HUD lives display options
+ */
+export interface LivesRenderOptions {
+  x: number;
+  y: number;
+  /** Grow right from x ('left') or left from x ('right') */
+  align?: 'left' | 'right';
+  color?: string;
+  radius?: number;
+  spacing?: number;
+  /** Health bar color (only drawn when health per life > 1) */
+  healthColor?: string;
+}
+
+interface LivesState {
+  lives: number;
+  health: number;
+  invincible: number;
+  livesLost: number;
+  extraLivesAwarded: number;
+  continuesUsed: number;
+  nextExtraLife: number;
+}
+
+const DEFAULT_OPTIONS: Required<Omit<LivesOptions, 'extraLifeEvery'>> = {
+  lives: 3,
+  maxLives: 5,
+  health: 1,
+  invincibility: 2000,
+  continues: 0,
+};
+
+/** Score at which the n-th (0-based) extra life is awarded */
+function extraLifeThreshold(extraLifeEvery: LivesOptions['extraLifeEvery'], n: number): number {
+  if (Array.isArray(extraLifeEvery)) return extraLifeEvery[n] ?? Infinity;
+  if (extraLifeEvery && extraLifeEvery > 0) return extraLifeEvery * (n + 1);
+  return Infinity;
+}
+
+/**
+ * Lives, health, invincibility frames and continues
+ * Usually created through useGameState({ lives: { ... } }), which ends the
+ * game (or offers a continue) when the last life is lost.
+ *
+ * Usage:
+ * ```
+ * const { lives } = useGameState({ lives: { lives: 3, extraLifeEvery: 1000 } });
+ *
+ * // In game loop
+ * lives.update(deltaTime);
+ * if (playerHitEnemy && lives.hit() !== 'ignored') shake.shakeMedium();
+ * if (lives.blink) drawPlayer();
+ * lives.render(ctx, { x: width - 20, y: 25, align: 'right' });
+ * ```
+ */
+export function useLives(options: LivesOptions = {}, callbacks: LivesCallbacks = {}) {
+  const opts = { ...DEFAULT_OPTIONS, ...options };
+  const optsRef = useRef(opts);
+  optsRef.current = opts;
+  const callbacksRef = useRef(callbacks);
+  callbacksRef.current = callbacks;
+
+  const state = useRef<LivesState>({
+    lives: opts.lives,
+    health: opts.health,
+    invincible: 0,
+    livesLost: 0,
+    extraLivesAwarded: 0,
+    continuesUsed: 0,
+    nextExtraLife: 0,
+  });
+
+  /**
+   * Restore everything for a new run
+   */
+  const reset = useCallback(() => {
+    const o = optsRef.current;
+    state.current = {
+      lives: o.lives,
+      health: o.health,
+      invincible: 0,
+      livesLost: 0,
+      extraLivesAwarded: 0,
+      continuesUsed: 0,
+      nextExtraLife: 0,
+    };
+  }, []);
+
+  /**
+   * Tick invincibility frames (call in game loop)
+   */
+  const update = useCallback((deltaTime: number) => {
+    const s = state.current;
+    if (s.invincible > 0) s.invincible = Math.max(0, s.invincible - deltaTime);
+  }, []);
+
+  /**
+   * Apply damage; ignored while invincible
+   */
+  const hit = useCallback((damage = 1): HitResult => {
+    const s = state.current;
+    const o = optsRef.current;
+    if (s.invincible > 0 || s.lives <= 0) return 'ignored';
+
+    s.health -= damage;
+    if (s.health > 0) {
+      s.invincible = o.invincibility;
+      return 'damaged';
+    }
+
+    s.lives--;
+    s.livesLost++;
+    if (s.lives > 0) {
+      s.health = o.health;
+      s.invincible = o.invincibility;
+      return 'lifeLost';
+    }
+
+    if (s.continuesUsed < o.continues) {
+      callbacksRef.current.onContinueOffer?.();
+      return 'continue';
+    }
+
+    callbacksRef.current.onGameOver?.();
+    return 'gameOver';
+  }, []);
+
+  /**
+   * Restore health without losing a life
+   */
+  const heal = useCallback((amount = Infinity) => {
+    const s = state.current;
+    s.health = Math.min(optsRef.current.health, s.health + amount);
+  }, []);
+
+  /**
+   * Add a life (capped at maxLives)
+   */
+  const addLife = useCallback((count = 1) => {
+    const s = state.current;
+    s.lives = Math.min(optsRef.current.maxLives, s.lives + count);
+  }, []);
+
+  /**
+   * Award extra lives for any thresholds the score has passed
+   */
+  const checkScore = useCallback((score: number) => {
+    const s = state.current;
+    const o = optsRef.current;
+    let awarded = 0;
+
+    while (score >= extraLifeThreshold(o.extraLifeEvery, s.nextExtraLife)) {
+      s.nextExtraLife++;
+      if (s.lives < o.maxLives) {
+        s.lives++;
+        s.extraLivesAwarded++;
+        awarded++;
+      }
+    }
+
+    if (awarded > 0) callbacksRef.current.onExtraLife?.(s.lives);
+    return awarded;
+  }, []);
+
+  /**
+   * Take the offered continue: full lives again, brief invincibility
+   */
+  const applyContinue = useCallback(() => {
+    const s = state.current;
+    const o = optsRef.current;
+    if (s.lives > 0 || s.continuesUsed >= o.continues) return false;
+
+    s.continuesUsed++;
+    s.lives = o.lives;
+    s.health = o.health;
+    s.invincible = o.invincibility;
+    return true;
+  }, []);
+
+  /**
+   * Run statistics for GameResult.metadata
+   */
+  const stats = useCallback((): LivesStats => {
+    const s = state.current;
+    return {
+      livesRemaining: s.lives,
+      livesLost: s.livesLost,
+      extraLivesAwarded: s.extraLivesAwarded,
+      continuesUsed: s.continuesUsed,
+    };
+  }, []);
+
+  /**
+   * Draw the standard HUD lives display (and health bar if health > 1)
+   */
+  const render = useCallback((ctx: CanvasRenderingContext2D, renderOptions: LivesRenderOptions) => {
+    const {
+      x,
+      y,
+      align = 'left',
+      color = '#00d4ff',
+      radius = 8,
+      spacing = 25,
+      healthColor = '#00ff88',
+    } = renderOptions;
+    const s = state.current;
+    const direction = align === 'right' ? -1 : 1;
+
+    ctx.fillStyle = color;
+    for (let i = 0; i < s.lives; i++) {
+      ctx.beginPath();
+      ctx.arc(x + direction * i * spacing, y, radius, 0, Math.PI * 2);
+      ctx.fill();
+    }
+
+    const maxHealth = optsRef.current.health;
+    if (maxHealth > 1) {
+      const barWidth = Math.max(spacing * 3, 60);
+      const barX = align === 'right' ? x + radius - barWidth : x - radius;
+      const barY = y + radius + 6;
+      ctx.fillStyle = 'rgba(255, 255, 255, 0.2)';
+      ctx.fillRect(barX, barY, barWidth, 4);
+      ctx.fillStyle = healthColor;
+      ctx.fillRect(barX, barY, barWidth * Math.max(0, s.health / maxHealth), 4);
+    }
+  }, []);
+
+  // Stable controller with live getters so the game loop never reads stale values
+  return useMemo(() => ({
+    get count() {
+      return state.current.lives;
+    },
+    get health() {
+      return state.current.health;
+    },
+    get maxHealth() {
+      return optsRef.current.health;
+    },
+    get isInvincible() {
+      return state.current.invincible > 0;
+    },
+    /** False on alternate 100ms ticks while invincible - skip drawing the player */
+    get blink() {
+      const { invincible } = state.current;
+      return invincible <= 0 || Math.floor(invincible / 100) % 2 === 0;
+    },
+    get continuesLeft() {
+      return optsRef.current.continues - state.current.continuesUsed;
+    },
+    reset,
+    update,
+    hit,
+    heal,
+    addLife,
+    checkScore,
+    applyContinue,
+    stats,
+    render,
+  }), [reset, update, hit, heal, addLife, checkScore, applyContinue, stats, render]);
+}
@@ -1,106 +1,45 @@
-import { useState, useEffect, useCallback, RefObject } from 'react';
-import { Vector2D } from '../types';
-
-interface MouseState {
-  /** Current mouse/touch position */
-  position: Vector2D;
-  /** Whether mouse button or touch is currently pressed */
-  isDown: boolean;
-  /** Whether mouse/touch just started this frame */
-  justPressed: boolean;
-  /** Whether mouse/touch just released this frame */
-  justReleased: boolean;
-}
+import { useEffect, useRef, RefObject } from 'react';
+import { createPointerStore, PointerStore } from '../inputStore';
+import { GestureOptions } from '../gestures';
 
 /**
- * Mouse and touch input hook
- * Tracks position relative to element and press/release states
+ * Mouse, touch and pen input hook
+ * Tracks every active pointer relative to the element and recognises
+ * gestures (tap, double-tap, long-press, swipe, pinch, rotate).
+ *
+ * Usage:
+ * ```
+ * const mouse = useMouse(canvasRef);
+ *
+ * // In game loop
+ * if (mouse.isDown) moveToward(mouse.position);
+ * if (mouse.justPressed) onClick(mouse.position);
+ * mouse.pointers.forEach(p => drawFinger(p.position));
+ * for (const gesture of mouse.gestures) {
+ *   if (gesture.type === 'swipe') dash(gesture.direction);
+ *   if (gesture.type === 'pinch') zoom = baseZoom * gesture.scale;
+ * }
+ * ```
+ *
+ * Returns a stable pointer store: the loop reads live values and pointer
+ * events never re-render the component (use useInputValue for UI that should).
+ * justPressed/justReleased and gestures are latched per useGameLoop step, so
+ * a tap between two frames is seen exactly once.
+ *
+ * Positions are canvas pixels when the element is a useCanvas canvas; use
+ * `viewport.canvasToWorld` for world coordinates under a camera.
  */
-export function useMouse(elementRef?: RefObject<HTMLElement | null>) {
-  const [mouse, setMouse] = useState<MouseState>({
-    position: { x: 0, y: 0 },
-    isDown: false,
-    justPressed: false,
-    justReleased: false,
-  });
-
-  // Clear just pressed/released flags after a frame
-  useEffect(() => {
-    if (mouse.justPressed || mouse.justReleased) {
-      const timeout = setTimeout(() => {
-        setMouse(prev => ({ ...prev, justPressed: false, justReleased: false }));
-      }, 16);
-      return () => clearTimeout(timeout);
-    }
-  }, [mouse.justPressed, mouse.justReleased]);
-
-  useEffect(() => {
-    const getPosition = (clientX: number, clientY: number): Vector2D => {
-      const target = elementRef?.current;
-      if (target) {
-        const rect = target.getBoundingClientRect();
-        const scaleX = target.clientWidth / (target as HTMLCanvasElement).width || 1;
-        const scaleY = target.clientHeight / (target as HTMLCanvasElement).height || 1;
-        return {
-          x: (clientX - rect.left) / scaleX,
-          y: (clientY - rect.top) / scaleY,
-        };
-      }
-      return { x: clientX, y: clientY };
-    };
-
-    const handleMouseMove = (e: MouseEvent) => {
-      const position = getPosition(e.clientX, e.clientY);
-      setMouse(prev => ({ ...prev, position }));
-    };
-
-    const handleTouchMove = (e: TouchEvent) => {
-      if (e.touches.length > 0) {
-        const touch = e.touches[0];
-        const position = getPosition(touch.clientX, touch.clientY);
-        setMouse(prev => ({ ...prev, position }));
-      }
-    };
-
-    const handleMouseDown = (e: MouseEvent) => {
-      const position = getPosition(e.clientX, e.clientY);
-      setMouse(prev => ({ ...prev, position, isDown: true, justPressed: true }));
-    };
-
-    const handleTouchStart = (e: TouchEvent) => {
-      if (e.touches.length > 0) {
-        const touch = e.touches[0];
-        const position = getPosition(touch.clientX, touch.clientY);
-        setMouse(prev => ({ ...prev, position, isDown: true, justPressed: true }));
-      }
-    };
-
-    const handleMouseUp = () => {
-      setMouse(prev => ({ ...prev, isDown: false, justReleased: true }));
-    };
-
-    const handleTouchEnd = () => {
-      setMouse(prev => ({ ...prev, isDown: false, justReleased: true }));
-    };
-
-    const element = elementRef?.current || window;
+export function useMouse(
+  elementRef?: RefObject<HTMLElement | null>,
+  gestureOptions?: GestureOptions
+): PointerStore {
+  const storeRef = useRef<PointerStore | null>(null);
+  if (!storeRef.current) storeRef.current = createPointerStore(gestureOptions);
+  const store = storeRef.current;
 
-    element.addEventListener('mousemove', handleMouseMove as EventListener);
-    element.addEventListener('touchmove', handleTouchMove as EventListener, { passive: true });
-    element.addEventListener('mousedown', handleMouseDown as EventListener);
-    element.addEventListener('touchstart', handleTouchStart as EventListener, { passive: true });
-    window.addEventListener('mouseup', handleMouseUp);
-    window.addEventListener('touchend', handleTouchEnd);
+  useEffect(() => store.connect(elementRef?.current ?? null), [elementRef, store]);
 
-    return () => {
-      element.removeEventListener('mousemove', handleMouseMove as EventListener);
-      element.removeEventListener('touchmove', handleTouchMove as EventListener);
-      element.removeEventListener('mousedown', handleMouseDown as EventListener);
-      element.removeEventListener('touchstart', handleTouchStart as EventListener);
-      window.removeEventListener('mouseup', handleMouseUp);
-      window.removeEventListener('touchend', handleTouchEnd);
-    };
-  }, [elementRef]);
+  useEffect(() => () => store.dispose(), [store]);
 
-  return mouse;
+  return store;
 }
@@ -1,5 +1,7 @@
 import { useRef, useCallback } from 'react';
+import { Rect } from '../types';
 import { random } from '../utils';
+import { RandomSource, mathRandom } from '../random';
 
 /**
  * Particle for visual effects
@@ -84,23 +86,32 @@ const DEFAULT_OPTIONS: Required<ParticleOptions> = {
  * update(deltaTime);
  * render(ctx);
  * ```
+ *
+ * Pass a generator to make effects reproducible - usually a cosmetic fork,
+ * so particles never consume gameplay randomness:
+ * ```
+ * const particles = useParticles(rng.fork('fx'));
+ * ```
  */
-export function useParticles() {
+export function useParticles(rng: RandomSource = mathRandom) {
   const particles = useRef<Particle[]>([]);
+  const rngRef = useRef(rng);
+  rngRef.current = rng;
 
   /**
    * Emit particles at a position
    */
   const emit = useCallback((x: number, y: number, options: ParticleOptions = {}) => {
     const opts = { ...DEFAULT_OPTIONS, ...options };
+    const rng = rngRef.current;
 
     for (let i = 0; i < opts.count; i++) {
       const angle = opts.spread === Math.PI * 2
-        ? random(0, Math.PI * 2)
-        : opts.direction + random(-opts.spread / 2, opts.spread / 2);
+        ? random(0, Math.PI * 2, rng)
+        : opts.direction + random(-opts.spread / 2, opts.spread / 2, rng);
 
-      const speed = random(opts.speedMin, opts.speedMax);
-      const life = opts.life + random(-opts.lifeVariance, opts.lifeVariance);
+      const speed = random(opts.speedMin, opts.speedMax, rng);
+      const life = opts.life + random(-opts.lifeVariance, opts.lifeVariance, rng);
 
       particles.current.push({
         x,
@@ -109,8 +120,8 @@ export function useParticles() {
         vy: Math.sin(angle) * speed,
         life,
         maxLife: life,
-        size: random(opts.sizeMin, opts.sizeMax),
-        color: opts.colors[Math.floor(random(0, opts.colors.length))],
+        size: random(opts.sizeMin, opts.sizeMax, rng),
+        color: opts.colors[Math.floor(random(0, opts.colors.length, rng))],
         gravity: opts.gravity,
         friction: opts.friction,
         shrink: opts.shrink,
@@ -189,20 +200,28 @@ export function useParticles() {
 
   /**
    * Render all particles (call in game loop after clearing)
+   * Pass the visible area (e.g. `camera.visibleBounds()`) to skip off-screen ones.
+   * Fits a render layer as is: `renderer.add('effects', render)`.
    */
-  const render = useCallback((ctx: CanvasRenderingContext2D) => {
+  const render = useCallback((ctx: CanvasRenderingContext2D, visible?: Rect) => {
+    // Fade on top of the incoming alpha (e.g. a render layer's opacity)
+    const base = ctx.globalAlpha;
     for (const p of particles.current) {
       const lifeRatio = p.life / p.maxLife;
       const size = p.shrink ? p.size * lifeRatio : p.size;
+      if (visible && (
+        p.x + size < visible.x || p.x - size > visible.x + visible.width ||
+        p.y + size < visible.y || p.y - size > visible.y + visible.height
+      )) continue;
       const alpha = p.fade ? lifeRatio : 1;
 
-      ctx.globalAlpha = alpha;
+      ctx.globalAlpha = base * alpha;
       ctx.fillStyle = p.color;
       ctx.beginPath();
       ctx.arc(p.x, p.y, size, 0, Math.PI * 2);
       ctx.fill();
     }
-    ctx.globalAlpha = 1;
+    ctx.globalAlpha = base;
   }, []);
 
   /**
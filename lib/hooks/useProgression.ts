@@ -0,0 +1,185 @@
+import { useState, useCallback, useEffect, useRef } from 'react';
+import { GameMessage, LevelDefinition, LevelProgress } from '../types';
+import { defineSlot, saveStorage } from '../storage';
+
+/**
+ * Progression options (passed through from useGameState)
+ */
+interface ProgressionOptions {
+  levels: LevelDefinition[];
+  /** Post a message to the host */
+  post: (message: GameMessage) => void;
+  /** Whether a run is in progress - LEVEL_START is only posted during play */
+  isRunning: () => boolean;
+}
+
+/**
+ * Result of completing a level
+ */
+export interface LevelCompletion {
+  levelId: string;
+  score: number;
+  stars: number;
+  bestScore: number;
+  /** Whether this beat the previous best score */
+  newBest: boolean;
+  /** Whether there is a level after this one */
+  hasNext: boolean;
+}
+
+type SavedProgress = Record<string, Partial<LevelProgress>>;
+
+/**
+ * Level progress save slot, keyed by level id
+ */
+const PROGRESS_SLOT = defineSlot<SavedProgress>({
+  key: 'levelProgress',
+  version: 1,
+  defaults: () => ({}),
+  validate: data => !!data && typeof data === 'object' && !Array.isArray(data),
+});
+
+/** Stars earned by a level score (0 when the level has no thresholds) */
+export function getStars(level: LevelDefinition, score: number): number {
+  return level.starThresholds?.filter(threshold => score >= threshold).length ?? 0;
+}
+
+/**
+ * Level and progression tracking
+ * Used by useGameState({ levels }) - the first level is always unlocked and
+ * completing a level unlocks the next one.
+ */
+export function useProgression({ levels, post, isRunning }: ProgressionOptions) {
+  const [levelIndex, setLevelIndex] = useState(0);
+  const [, setSaved] = useState<SavedProgress>({});
+  const indexRef = useRef(levelIndex);
+  const savedRef = useRef<SavedProgress>({});
+
+  // Load saved progress
+  useEffect(() => {
+    savedRef.current = saveStorage.load(PROGRESS_SLOT);
+    setSaved(savedRef.current);
+  }, []);
+
+  const persist = useCallback((next: SavedProgress) => {
+    savedRef.current = next;
+    setSaved(next);
+    saveStorage.save(PROGRESS_SLOT, next);
+  }, []);
+
+  const getProgress = useCallback((index: number): LevelProgress => {
+    const level = levels[index];
+    const entry = level ? savedRef.current[level.id] ?? {} : {};
+    return {
+      unlocked: index === 0 || !!entry.unlocked,
+      completed: !!entry.completed,
+      bestScore: entry.bestScore ?? 0,
+      stars: entry.stars ?? 0,
+    };
+  }, [levels]);
+
+  const isUnlocked = useCallback((index: number) => {
+    return index >= 0 && index < levels.length && getProgress(index).unlocked;
+  }, [levels, getProgress]);
+
+  /**
+   * Start (or, outside a run, select) a level
+   */
+  const startLevel = useCallback((index: number) => {
+    if (!isUnlocked(index)) {
+      console.warn(`Level ${index + 1} is locked or does not exist`);
+      return false;
+    }
+
+    indexRef.current = index;
+    setLevelIndex(index);
+    if (isRunning()) {
+      post({ type: 'LEVEL_START', level: index + 1, levelId: levels[index].id });
+    }
+    return true;
+  }, [levels, isUnlocked, isRunning, post]);
+
+  /**
+   * Announce the current level (called by useGameState when a run starts)
+   */
+  const announceLevel = useCallback(() => {
+    const level = levels[indexRef.current];
+    if (level) post({ type: 'LEVEL_START', level: indexRef.current + 1, levelId: level.id });
+  }, [levels, post]);
+
+  /**
+   * Record the current level as completed and unlock the next one
+   */
+  const completeLevel = useCallback((options: { score: number; stars?: number }): LevelCompletion | null => {
+    const index = indexRef.current;
+    const level = levels[index];
+    if (!level) return null;
+
+    const previous = getProgress(index);
+    const stars = options.stars ?? getStars(level, options.score);
+    const bestScore = Math.max(previous.bestScore, options.score);
+    const next: SavedProgress = {
+      ...savedRef.current,
+      [level.id]: {
+        ...savedRef.current[level.id],
+        unlocked: true,
+        completed: true,
+        bestScore,
+        stars: Math.max(previous.stars, stars),
+      },
+    };
+
+    const nextLevel = levels[index + 1];
+    if (nextLevel) {
+      next[nextLevel.id] = { ...next[nextLevel.id], unlocked: true };
+    }
+    persist(next);
+
+    post({
+      type: 'LEVEL_COMPLETE',
+      level: index + 1,
+      levelId: level.id,
+      score: options.score,
+      stars,
+      bestScore,
+    });
+
+    return {
+      levelId: level.id,
+      score: options.score,
+      stars,
+      bestScore,
+      newBest: options.score > previous.bestScore,
+      hasNext: !!nextLevel,
+    };
+  }, [levels, getProgress, persist, post]);
+
+  /**
+   * Advance to the level after the current one
+   */
+  const nextLevel = useCallback(() => {
+    return startLevel(indexRef.current + 1);
+  }, [startLevel]);
+
+  /**
+   * Forget all saved progress
+   */
+  const resetProgress = useCallback(() => {
+    persist({});
+    indexRef.current = 0;
+    setLevelIndex(0);
+  }, [persist]);
+
+  return {
+    levels,
+    levelIndex,
+    currentLevel: levels[levelIndex] ?? null,
+    progress: levels.map((_, i) => getProgress(i)),
+    startLevel,
+    announceLevel,
+    completeLevel,
+    nextLevel,
+    isUnlocked,
+    resetProgress,
+  };
+}
@@ -0,0 +1,38 @@
+import { useRef } from 'react';
+import { Renderer, RendererOptions, createRenderer } from '../renderer';
+
+/**
+ * Layered renderer: background, world, effects and hud layers, z-sorted,
+ * each with its own transform, opacity and blend mode
+ *
+ * Usage:
+ * ```
+ * const { ctx, camera, clear } = useCanvas(CONFIG);
+ * const particles = useParticles();
+ * const shake = useScreenShake();
+ * const renderer = useRenderer({ width, height, camera, shake: shake.apply });
+ *
+ * // Particles draw every frame, culled to the visible area
+ * useEffect(() => renderer.add('effects', particles.render), [renderer, particles.render]);
+ *
+ * // In game loop
+ * renderer.draw('world', c => drawPlayer(c));
+ * renderer.draw('hud', c => drawScore(c));   // not moved by the camera or shake
+ * clear();
+ * renderer.render(ctx);
+ * ```
+ *
+ * The renderer is stable; camera, shake and size follow the latest options.
+ * Change layers with `renderer.layer(name, settings)`.
+ */
+export function useRenderer(options: RendererOptions): Renderer {
+  const rendererRef = useRef<Renderer | null>(null);
+  if (!rendererRef.current) rendererRef.current = createRenderer(options);
+  const renderer = rendererRef.current;
+
+  renderer.setCamera(options.camera ?? null);
+  renderer.setShake(options.shake ?? null);
+  renderer.resize(options.width, options.height);
+
+  return renderer;
+}
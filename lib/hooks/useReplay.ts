@@ -0,0 +1,136 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import {
+  Replay,
+  ReplayDevices,
+  ReplayPlayer,
+  ReplayRecorder,
+  createReplayPlayer,
+  createReplayRecorder,
+  isReplay,
+  serializeReplay,
+} from '../replay';
+import { Random } from '../random';
+import { defineSlot, saveStorage } from '../storage';
+
+interface BestReplaySave {
+  replay: Replay | null;
+  score: number;
+}
+
+/**
+ * Best-run save slot
+ */
+const BEST_REPLAY_SLOT = defineSlot<BestReplaySave>({
+  key: 'best-replay',
+  version: 1,
+  defaults: () => ({ replay: null, score: 0 }),
+  validate: data => {
+    const save = data as BestReplaySave;
+    return !!save && typeof save.score === 'number' && (save.replay === null || isReplay(save.replay));
+  },
+});
+
+// Bigger replays stay in memory rather than crowding out other saves
+const MAX_SAVED_REPLAY_LENGTH = 500_000;
+
+/**
+ * Record runs and play them back
+ *
+ * Usage:
+ * ```
+ * const replays = useReplay({ pointer: mouse });
+ *
+ * // Run starts (useGameState onStart) - does nothing while watching
+ * replays.record();
+ * // Gameplay randomness - same stream when the run is watched back
+ * vx = replays.rng.range(-0.5, 0.5) * speed;
+ * // Run ends
+ * const replay = replays.stopRecording({ score });
+ * if (replay) replays.keepIfBest(replay, score);
+ *
+ * // Game over screen
+ * <button onClick={() => { replays.watch(replays.best!); play(); }}>Watch best run</button>
+ * ```
+ *
+ * Use a fixed-step loop: replays reproduce steps, not frames.
+ */
+export function useReplay(devices: ReplayDevices = {}) {
+  const devicesRef = useRef(devices);
+  devicesRef.current = devices;
+  const recorder = useRef<ReplayRecorder | null>(null);
+  const player = useRef<ReplayPlayer | null>(null);
+  const [rng] = useState(() => new Random());
+  const [watching, setWatching] = useState(false);
+  const [best, setBest] = useState<BestReplaySave>(() => BEST_REPLAY_SLOT.defaults());
+
+  useEffect(() => {
+    setBest(saveStorage.load(BEST_REPLAY_SLOT));
+  }, []);
+
+  // Stop feeding input if the game unmounts mid-replay
+  useEffect(() => () => player.current?.stop(), []);
+
+  /** Start recording a run (ignored while watching); returns the seed */
+  const record = useCallback((seed?: number) => {
+    if (player.current?.playing) return player.current.replay.seed;
+    recorder.current = createReplayRecorder(devicesRef.current);
+    const started = recorder.current.start(seed);
+    rng.reseed(started);
+    return started;
+  }, [rng]);
+
+  /** Stop recording; null if nothing was being recorded */
+  const stopRecording = useCallback((meta?: Record<string, unknown>): Replay | null => {
+    if (!recorder.current?.recording) return null;
+    return recorder.current.stop(meta);
+  }, []);
+
+  /** Play a replay back from the next step; start the run right after */
+  const watch = useCallback((replay: Replay, onEnd?: () => void) => {
+    recorder.current?.stop();
+    player.current?.stop();
+    player.current = createReplayPlayer(replay, devicesRef.current, () => {
+      setWatching(false);
+      onEnd?.();
+    });
+    player.current.start();
+    rng.reseed(replay.seed);
+    setWatching(true);
+  }, [rng]);
+
+  /** Stop watching (live input comes back) */
+  const stop = useCallback(() => {
+    player.current?.stop();
+    setWatching(false);
+  }, []);
+
+  /** Keep a replay as the best run if it beats the saved one; returns whether it did */
+  const keepIfBest = useCallback((replay: Replay, score: number) => {
+    if (best.replay && score <= best.score) return false;
+    const next = { replay, score };
+    setBest(next);
+    if (serializeReplay(replay).length <= MAX_SAVED_REPLAY_LENGTH) {
+      saveStorage.save(BEST_REPLAY_SLOT, next);
+    } else {
+      console.warn('Best-run replay is too large to save; keeping it for this session only');
+    }
+    return true;
+  }, [best]);
+
+  return {
+    /** Whether a replay is driving input */
+    watching,
+    /** Best run so far (null until one is kept) */
+    best: best.replay,
+    bestScore: best.score,
+    /** Playback progress 0-1 (read in the game loop) */
+    progress: () => player.current?.progress ?? 0,
+    record,
+    stopRecording,
+    watch,
+    stop,
+    /** Gameplay generator - reseeded when recording or watching starts */
+    rng,
+    keepIfBest,
+  };
+}
@@ -0,0 +1,44 @@
+import { useState, useEffect, useCallback, useRef } from 'react';
+import { SaveSlot, SaveStorage, saveStorage } from '../storage';
+
+/**
+ * Persisted state backed by a save slot
+ *
+ * Usage:
+ * ```
+ * interface SettingsV1 { music: boolean }
+ *
+ * const SETTINGS = defineSlot({
+ *   key: 'settings',
+ *   version: 2,
+ *   defaults: () => ({ music: true, difficulty: 'normal' }),
+ *   migrations: { 2: (v1: SettingsV1) => ({ ...v1, difficulty: 'normal' }) },
+ * });
+ *
+ * const [settings, setSettings] = useSaveSlot(SETTINGS);
+ * setSettings(prev => ({ ...prev, music: false }));
+ * ```
+ *
+ * Data starts as the slot defaults and is loaded after mount, so server and
+ * client renders match.
+ */
+export function useSaveSlot<T>(slot: SaveSlot<T>, storage: SaveStorage = saveStorage) {
+  const [data, setData] = useState<T>(() => slot.defaults());
+  const dataRef = useRef(data);
+
+  useEffect(() => {
+    dataRef.current = storage.load(slot);
+    setData(dataRef.current);
+  }, [slot, storage]);
+
+  const update = useCallback((next: T | ((prev: T) => T)) => {
+    const value = typeof next === 'function'
+      ? (next as (prev: T) => T)(dataRef.current)
+      : next;
+    dataRef.current = value;
+    storage.save(slot, value);
+    setData(value);
+  }, [slot, storage]);
+
+  return [data, update] as const;
+}
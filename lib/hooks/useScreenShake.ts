@@ -1,5 +1,6 @@
 import { useRef, useCallback } from 'react';
 import { random } from '../utils';
+import { RandomSource, mathRandom } from '../random';
 
 /**
  * Screen shake state
@@ -44,8 +45,12 @@ export interface ShakeOptions {
  * // ... render game ...
  * ctx.restore();
  * ```
+ *
+ * Pass a generator (e.g. `rng.fork('shake')`) for reproducible offsets.
  */
-export function useScreenShake() {
+export function useScreenShake(rng: RandomSource = mathRandom) {
+  const rngRef = useRef(rng);
+  rngRef.current = rng;
   const state = useRef<ShakeState>({
     intensity: 0,
     duration: 0,
@@ -117,8 +122,8 @@ export function useScreenShake() {
     s.intensity *= s.decay;
 
     // Random offset within intensity
-    s.offsetX = random(-s.intensity, s.intensity);
-    s.offsetY = random(-s.intensity, s.intensity);
+    s.offsetX = random(-s.intensity, s.intensity, rngRef.current);
+    s.offsetY = random(-s.intensity, s.intensity, rngRef.current);
 
     // Stop after duration
     if (s.elapsed >= s.duration) {
@@ -130,6 +135,8 @@ export function useScreenShake() {
 
   /**
    * Apply shake transform to canvas context
+   * Call before camera.apply so the shake is in screen pixels at any zoom.
+   * Or pass it to useRenderer as `shake` to shake the world layers only.
    */
   const apply = useCallback((ctx: CanvasRenderingContext2D) => {
     ctx.translate(state.current.offsetX, state.current.offsetY);
@@ -1,15 +1,45 @@
 import { useRef, useCallback, useEffect, useState } from 'react';
+import { loadAudio } from '../assets';
+
+/**
+ * Output options shared by the sound hooks (wire them to the host MUTE/SET_VOLUME)
+ */
+interface SoundOutputOptions {
+  /** Silence all output */
+  muted?: boolean;
+  /** Master volume (0-1) */
+  volume?: number;
+}
+
+const clampVolume = (volume: number) => Math.max(0, Math.min(1, volume));
 
 /**
  * Simple sound hook for single audio file
+ *
+ * Usage:
+ * ```
+ * const playJump = useSound('/assets/sounds/jump.mp3', { muted, volume });
+ * ```
  */
-export function useSound(src: string) {
+export function useSound(src: string, options: SoundOutputOptions = {}) {
+  const { muted = false, volume = 1 } = options;
   const audioRef = useRef<HTMLAudioElement | null>(null);
+  const output = useRef({ muted, volume });
+  output.current = { muted, volume: clampVolume(volume) };
+
+  // Applies to a sound that's already playing, too
+  useEffect(() => {
+    if (!audioRef.current) return;
+    audioRef.current.muted = output.current.muted;
+    audioRef.current.volume = output.current.volume;
+  }, [muted, volume]);
 
   const play = useCallback(() => {
     if (!audioRef.current) {
       audioRef.current = new Audio(src);
     }
+    audioRef.current.muted = output.current.muted;
+    audioRef.current.volume = output.current.volume;
     audioRef.current.currentTime = 0;
     audioRef.current.play().catch(() => {});
   }, [src]);
@@ -52,41 +82,81 @@ interface SoundPool {
  *
  * // With options
  * sound.play('hit', { volume: 0.5 });
+ *
+ * // Follow the host's MUTE/SET_VOLUME
+ * const sound = useSoundManager(SOUNDS, { muted, volume });
  * ```
+ *
+ * `ready` turns true once every file is in memory. Keep the sounds object
+ * outside the component so it isn't reloaded on every render.
  */
 export function useSoundManager(
-  sounds: Record<string, string | { src: string } & SoundConfig>
+  sounds: Record<string, string | { src: string } & SoundConfig>,
+  options: SoundOutputOptions = {}
 ) {
   const pools = useRef<Record<string, SoundPool>>({});
   const [ready, setReady] = useState(false);
   const masterVolume = useRef(1);
   const muted = useRef(false);
 
-  // Preload all sounds
+  // Push mute/volume to every pooled element, including ones playing now
+  const applyOutput = useCallback(() => {
+    Object.values(pools.current).forEach(pool => {
+      pool.audios.forEach(audio => {
+        audio.muted = muted.current;
+        audio.volume = (pool.config.volume ?? 1) * masterVolume.current;
+      });
+    });
+  }, []);
+
+  useEffect(() => {
+    if (options.muted !== undefined) muted.current = options.muted;
+    if (options.volume !== undefined) masterVolume.current = clampVolume(options.volume);
+    applyOutput();
+  }, [options.muted, options.volume, applyOutput]);
+
+  // Preload all sounds - fetched into memory (shared with useAssets), then pooled
   useEffect(() => {
     const poolSize = 4; // Allow 4 concurrent plays of same sound
+    let cancelled = false;
+    setReady(false);
 
-    Object.entries(sounds).forEach(([name, config]) => {
+    const loads = Object.entries(sounds).map(([name, config]) => {
       const src = typeof config === 'string' ? config : config.src;
       const soundConfig = typeof config === 'string' ? {} : config;
 
-      const audios: HTMLAudioElement[] = [];
-      for (let i = 0; i < poolSize; i++) {
-        const audio = new Audio(src);
-        audio.preload = 'auto';
-        audio.volume = (soundConfig as SoundConfig).volume ?? 1;
-        audio.loop = (soundConfig as SoundConfig).loop ?? false;
-        audios.push(audio);
-      }
-
-      pools.current[name] = {
-        audios,
-        index: 0,
-        config: soundConfig,
-      };
+      return loadAudio(src)
+        .catch(() => {
+          console.warn(`Sound "${name}" failed to preload; streaming ${src} instead`);
+          return src;
+        })
+        .then(url => {
+          if (cancelled) return;
+          const audios: HTMLAudioElement[] = [];
+          for (let i = 0; i < poolSize; i++) {
+            const audio = new Audio(url);
+            audio.preload = 'auto';
+            audio.muted = muted.current;
+            audio.volume = ((soundConfig as SoundConfig).volume ?? 1) * masterVolume.current;
+            audio.loop = (soundConfig as SoundConfig).loop ?? false;
+            audios.push(audio);
+          }
+
+          pools.current[name] = {
+            audios,
+            index: 0,
+            config: soundConfig,
+          };
+        });
+    });
+
+    Promise.all(loads).then(() => {
+      if (!cancelled) setReady(true);
     });
 
-    setReady(true);
+    return () => {
+      cancelled = true;
+    };
   }, [sounds]);
 
   /**
@@ -149,16 +219,18 @@ export function useSoundManager(
    * Set master volume (0-1)
    */
   const setVolume = useCallback((volume: number) => {
-    masterVolume.current = Math.max(0, Math.min(1, volume));
-  }, []);
+    masterVolume.current = clampVolume(volume);
+    applyOutput();
+  }, [applyOutput]);
 
   /**
    * Mute/unmute all sounds
    */
   const setMuted = useCallback((isMuted: boolean) => {
     muted.current = isMuted;
+    applyOutput();
     if (isMuted) stopAll();
-  }, [stopAll]);
+  }, [stopAll, applyOutput]);
 
   return {
     play,
@@ -171,12 +243,28 @@ export function useSoundManager(
   };
 }
 
+/**
+ * Synth sound options
+ */
+interface SynthSoundOptions extends SoundOutputOptions {
+  /** Suspend the AudioContext (e.g. while the game is paused) */
+  suspended?: boolean;
+}
+
 /**
  * Generate simple sound effects using Web Audio API
  * Use this to create sounds without audio files
+ *
+ * Pass `suspended: isPaused` to silence everything while paused; sounds
+ * scheduled before the pause finish when the context resumes. `muted` and
+ * `volume` control a master gain (wire them to the host MUTE/SET_VOLUME).
  */
-export function useSynthSound() {
+export function useSynthSound(options: SynthSoundOptions = {}) {
+  const { suspended = false, muted = false, volume = 1 } = options;
   const ctxRef = useRef<AudioContext | null>(null);
+  const masterRef = useRef<GainNode | null>(null);
+  const masterLevel = useRef(1);
+  masterLevel.current = muted ? 0 : clampVolume(volume);
 
   const getContext = useCallback(() => {
     if (!ctxRef.current) {
@@ -185,6 +273,44 @@ export function useSynthSound() {
     return ctxRef.current;
   }, []);
 
+  // Master gain every sound is routed through (mute/volume)
+  const getOutput = useCallback(() => {
+    if (!masterRef.current) {
+      const ctx = getContext();
+      masterRef.current = ctx.createGain();
+      masterRef.current.gain.value = masterLevel.current;
+      masterRef.current.connect(ctx.destination);
+    }
+    return masterRef.current;
+  }, [getContext]);
+
+  useEffect(() => {
+    if (masterRef.current) masterRef.current.gain.value = masterLevel.current;
+  }, [muted, volume]);
+
+  /**
+   * Suspend audio output
+   */
+  const suspend = useCallback(() => {
+    if (ctxRef.current?.state === 'running') {
+      ctxRef.current.suspend().catch(() => {});
+    }
+  }, []);
+
+  /**
+   * Resume audio output
+   */
+  const resume = useCallback(() => {
+    if (ctxRef.current?.state === 'suspended') {
+      ctxRef.current.resume().catch(() => {});
+    }
+  }, []);
+
+  useEffect(() => {
+    if (suspended) suspend();
+    else resume();
+  }, [suspended, suspend, resume]);
+
   /**
    * Play a beep sound
    */
@@ -194,7 +320,7 @@ export function useSynthSound() {
     const gain = ctx.createGain();
 
     oscillator.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getOutput());
 
     oscillator.frequency.value = frequency;
     oscillator.type = 'square';
@@ -203,7 +329,7 @@ export function useSynthSound() {
 
     oscillator.start();
     oscillator.stop(ctx.currentTime + duration / 1000);
-  }, [getContext]);
+  }, [getContext, getOutput]);
 
   /**
    * Coin/pickup sound
@@ -214,7 +340,7 @@ export function useSynthSound() {
     const gain = ctx.createGain();
 
     oscillator.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getOutput());
 
     oscillator.type = 'square';
     oscillator.frequency.setValueAtTime(987.77, ctx.currentTime);
@@ -224,7 +350,7 @@ export function useSynthSound() {
 
     oscillator.start();
     oscillator.stop(ctx.currentTime + 0.2);
-  }, [getContext]);
+  }, [getContext, getOutput]);
 
   /**
    * Hit/damage sound
@@ -235,7 +361,7 @@ export function useSynthSound() {
     const gain = ctx.createGain();
 
     oscillator.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getOutput());
 
     oscillator.type = 'sawtooth';
     oscillator.frequency.setValueAtTime(200, ctx.currentTime);
@@ -245,7 +371,7 @@ export function useSynthSound() {
 
     oscillator.start();
     oscillator.stop(ctx.currentTime + 0.1);
-  }, [getContext]);
+  }, [getContext, getOutput]);
 
   /**
    * Explosion sound
@@ -268,7 +394,7 @@ export function useSynthSound() {
     noise.buffer = buffer;
     noise.connect(filter);
     filter.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getOutput());
 
     filter.type = 'lowpass';
     filter.frequency.setValueAtTime(1000, ctx.currentTime);
@@ -278,7 +404,7 @@ export function useSynthSound() {
     gain.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.3);
 
     noise.start();
-  }, [getContext]);
+  }, [getContext, getOutput]);
 
   /**
    * Jump sound
@@ -289,7 +415,7 @@ export function useSynthSound() {
     const gain = ctx.createGain();
 
     oscillator.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getOutput());
 
     oscillator.type = 'sine';
     oscillator.frequency.setValueAtTime(300, ctx.currentTime);
@@ -299,7 +425,7 @@ export function useSynthSound() {
 
     oscillator.start();
     oscillator.stop(ctx.currentTime + 0.15);
-  }, [getContext]);
+  }, [getContext, getOutput]);
 
   /**
    * Powerup sound
@@ -313,7 +439,7 @@ export function useSynthSound() {
       const gain = ctx.createGain();
 
       oscillator.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(getOutput());
 
       oscillator.type = 'sine';
       oscillator.frequency.value = freq;
@@ -324,7 +450,7 @@ export function useSynthSound() {
       oscillator.start(ctx.currentTime + i * 0.08);
       oscillator.stop(ctx.currentTime + i * 0.08 + 0.15);
     });
-  }, [getContext]);
+  }, [getContext, getOutput]);
 
   /**
    * Game over sound
@@ -338,7 +464,7 @@ export function useSynthSound() {
       const gain = ctx.createGain();
 
       oscillator.connect(gain);
-      gain.connect(ctx.destination);
+      gain.connect(getOutput());
 
       oscillator.type = 'triangle';
       oscillator.frequency.value = freq;
@@ -349,7 +475,7 @@ export function useSynthSound() {
       oscillator.start(ctx.currentTime + i * 0.2);
       oscillator.stop(ctx.currentTime + i * 0.2 + 0.4);
     });
-  }, [getContext]);
+  }, [getContext, getOutput]);
 
   /**
    * Laser/shoot sound
@@ -360,7 +486,7 @@ export function useSynthSound() {
     const gain = ctx.createGain();
 
     oscillator.connect(gain);
-    gain.connect(ctx.destination);
+    gain.connect(getOutput());
 
     oscillator.type = 'sawtooth';
     oscillator.frequency.setValueAtTime(1000, ctx.currentTime);
@@ -370,7 +496,7 @@ export function useSynthSound() {
 
     oscillator.start();
     oscillator.stop(ctx.currentTime + 0.15);
-  }, [getContext]);
+  }, [getContext, getOutput]);
 
   return {
     beep,
@@ -381,5 +507,7 @@ export function useSynthSound() {
     powerup,
     gameOver,
     laser,
+    suspend,
+    resume,
   };
 }
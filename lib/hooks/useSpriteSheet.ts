@@ -0,0 +1,48 @@
+import { useState, useEffect, useRef } from 'react';
+import { AtlasData, GridLayout, SpriteSheet } from '../sprites';
+import { loadSpriteSheet } from '../assets';
+
+/**
+ * Load an image as a sprite sheet
+ * Null until the image (and atlas JSON, if given as a URL) has loaded.
+ * Files are cached for the session, so sheets in an asset manifest are ready at once.
+ *
+ * Usage:
+ * ```
+ * const hero = useSpriteSheet('/assets/hero.png', { frameWidth: 32, frameHeight: 32 });
+ * const items = useSpriteSheet('/assets/items.png', '/assets/items.json');
+ * const logo = useSpriteSheet('/assets/logo.png');
+ *
+ * // In game loop
+ * if (hero) drawSprite(ctx, hero, animator.frame, x, y);
+ * ```
+ */
+export function useSpriteSheet(
+  src: string,
+  layout?: GridLayout | AtlasData | string
+): SpriteSheet | null {
+  const [sheet, setSheet] = useState<SpriteSheet | null>(null);
+  // Layouts are usually inline objects; only a new src or atlas URL reloads
+  const layoutRef = useRef(layout);
+  layoutRef.current = layout;
+  const atlasUrl = typeof layout === 'string' ? layout : null;
+
+  useEffect(() => {
+    let cancelled = false;
+    setSheet(null);
+
+    loadSpriteSheet({ src, layout: layoutRef.current })
+      .then(loaded => {
+        if (!cancelled) setSheet(loaded);
+      })
+      .catch(error => {
+        if (!cancelled) console.warn(error instanceof Error ? error.message : error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [src, atlasUrl]);
+
+  return sheet;
+}
@@ -0,0 +1,400 @@
+import { useRef, useEffect, useMemo, RefObject } from 'react';
+import { Vector2D, DEFAULT_CONFIG } from '../types';
+import { TouchZone } from '../input';
+import { keyboardStore } from '../inputStore';
+import { clamp } from '../utils';
+import { getViewport } from '../viewport';
+
+/**
+ * Keys a stick or d-pad presses for each direction
+ */
+export interface DirectionKeys {
+  up?: string;
+  down?: string;
+  left?: string;
+  right?: string;
+}
+
+/**
+ * Analog stick
+ * Floating sticks appear wherever a touch starts inside `zone`; fixed sticks
+ * stay at x/y.
+ */
+export interface VirtualStick {
+  type: 'stick';
+  id?: string;
+  /** Where a floating stick can be grabbed, as fractions of the canvas (default: left half) */
+  zone?: TouchZone;
+  /** Fixed center in canvas pixels (makes the stick non-floating) */
+  x?: number;
+  y?: number;
+  /** Knob travel in canvas pixels (default: 60) */
+  radius?: number;
+  /** Keys pressed when the stick is pushed past halfway */
+  keys?: DirectionKeys;
+}
+
+/**
+ * Four-way (and diagonal) d-pad
+ */
+export interface VirtualDpad {
+  type: 'dpad';
+  id?: string;
+  x: number;
+  y: number;
+  /** Width/height in canvas pixels (default: 120) */
+  size?: number;
+  keys: DirectionKeys;
+}
+
+/**
+ * Action button
+ */
+export interface VirtualButton {
+  type: 'button';
+  id?: string;
+  x: number;
+  y: number;
+  /** Radius in canvas pixels (default: 36) */
+  radius?: number;
+  /** Key held while the button is touched */
+  key: string;
+  label?: string;
+}
+
+export type VirtualControl = VirtualStick | VirtualDpad | VirtualButton;
+
+/**
+ * Virtual controls options
+ */
+export interface VirtualControlsOptions {
+  /** Canvas the controls are drawn on and touched through */
+  element: RefObject<HTMLElement | null>;
+  /** Canvas width/height in game pixels (default: DEFAULT_CONFIG) */
+  width?: number;
+  height?: number;
+  /** Show the controls: true, false, or 'auto' = on touch devices (default: 'auto') */
+  enabled?: boolean | 'auto';
+  color?: string;
+}
+
+interface ControlState {
+  touches: Set<number>;
+  /** Stick center and knob, in canvas pixels */
+  center: Vector2D | null;
+  knob: Vector2D;
+  /** Stick value (-1 to 1 per axis) */
+  value: Vector2D;
+  keys: Set<string>;
+}
+
+const DIRECTION_THRESHOLD = 0.5;
+
+/** Whether this looks like a touch-first device */
+function isTouchDevice(): boolean {
+  if (typeof window === 'undefined') return false;
+  return window.matchMedia?.('(pointer: coarse)').matches || 'ontouchstart' in window;
+}
+
+/** Keys for a direction vector (-1 to 1 per axis) */
+function directionKeys(value: Vector2D, keys: DirectionKeys = {}): string[] {
+  const pressed: (string | undefined)[] = [];
+  if (value.x <= -DIRECTION_THRESHOLD) pressed.push(keys.left);
+  if (value.x >= DIRECTION_THRESHOLD) pressed.push(keys.right);
+  if (value.y <= -DIRECTION_THRESHOLD) pressed.push(keys.up);
+  if (value.y >= DIRECTION_THRESHOLD) pressed.push(keys.down);
+  return pressed.filter((key): key is string => !!key);
+}
+
+/**
+ * On-screen joystick, d-pad and buttons for touch devices
+ * Controls press keys in the shared keyboard store, so useKeyboard and
+ * useInputActions see them exactly like physical keys.
+ *
+ * Usage:
+ * ```
+ * const controls = useVirtualControls([
+ *   { type: 'stick', keys: { up: 'ArrowUp', down: 'ArrowDown', left: 'ArrowLeft', right: 'ArrowRight' } },
+ *   { type: 'button', x: width - 70, y: height - 90, key: 'Space', label: 'FIRE' },
+ * ], { element: canvasRef, width, height });
+ *
+ * // In game loop (after drawing the game)
+ * controls.render(ctx);
+ * const { x, y } = controls.stick();  // analog value if you want more than keys
+ * ```
+ */
+export function useVirtualControls(controls: VirtualControl[], options: VirtualControlsOptions) {
+  const controlsRef = useRef(controls);
+  controlsRef.current = controls;
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  const states = useRef<ControlState[]>([]);
+  const heldKeys = useRef(new Set<string>());
+  const visible = useRef(false);
+
+  const { element, enabled = 'auto' } = options;
+
+  useEffect(() => {
+    visible.current = enabled === true || (enabled === 'auto' && isTouchDevice());
+  }, [enabled]);
+
+  useEffect(() => {
+    const target = element.current;
+    if (!target || enabled === false) return;
+
+    const getState = (index: number): ControlState => {
+      states.current[index] ??= {
+        touches: new Set(),
+        center: null,
+        knob: { x: 0, y: 0 },
+        value: { x: 0, y: 0 },
+        keys: new Set(),
+      };
+      return states.current[index];
+    };
+
+    const toCanvas = (touch: Touch): Vector2D => {
+      const { width = DEFAULT_CONFIG.width, height = DEFAULT_CONFIG.height } = optionsRef.current;
+      const viewport = getViewport(target);
+      if (viewport) return viewport.screenToCanvas({ x: touch.clientX, y: touch.clientY });
+      const rect = target.getBoundingClientRect();
+      return {
+        x: (touch.clientX - rect.left) * (width / (rect.width || 1)),
+        y: (touch.clientY - rect.top) * (height / (rect.height || 1)),
+      };
+    };
+
+    // Which control a new touch grabs, if any
+    const hitTest = (point: Vector2D): number => {
+      const { width = DEFAULT_CONFIG.width, height = DEFAULT_CONFIG.height } = optionsRef.current;
+      return controlsRef.current.findIndex((control, index) => {
+        if (control.type === 'button') {
+          const r = (control.radius ?? 36) * 1.2;
+          return Math.hypot(point.x - control.x, point.y - control.y) <= r;
+        }
+        if (control.type === 'dpad') {
+          const half = (control.size ?? 120) / 2;
+          return Math.abs(point.x - control.x) <= half && Math.abs(point.y - control.y) <= half;
+        }
+        if (getState(index).touches.size > 0) return false;
+        if (control.x !== undefined && control.y !== undefined) {
+          return Math.hypot(point.x - control.x, point.y - control.y) <= (control.radius ?? 60) * 1.5;
+        }
+        const zone = control.zone ?? { x: 0, y: 0, width: 0.5, height: 1 };
+        const fx = point.x / width;
+        const fy = point.y / height;
+        return fx >= zone.x && fx <= zone.x + zone.width && fy >= zone.y && fy <= zone.y + zone.height;
+      });
+    };
+
+    // Work out a control's value and keys from a touch position
+    const apply = (index: number, point: Vector2D | null) => {
+      const control = controlsRef.current[index];
+      const state = getState(index);
+      state.keys.clear();
+
+      if (control.type === 'button') {
+        if (point) state.keys.add(control.key);
+        return;
+      }
+
+      if (control.type === 'dpad') {
+        state.value = point
+          ? {
+              x: clamp((point.x - control.x) / ((control.size ?? 120) / 4), -1, 1),
+              y: clamp((point.y - control.y) / ((control.size ?? 120) / 4), -1, 1),
+            }
+          : { x: 0, y: 0 };
+        directionKeys(state.value, control.keys).forEach(key => state.keys.add(key));
+        return;
+      }
+
+      const radius = control.radius ?? 60;
+      if (!point || !state.center) {
+        state.center = null;
+        state.knob = { x: 0, y: 0 };
+        state.value = { x: 0, y: 0 };
+        return;
+      }
+      const dx = point.x - state.center.x;
+      const dy = point.y - state.center.y;
+      const distance = Math.hypot(dx, dy);
+      const limit = distance > radius ? radius / distance : 1;
+      state.knob = { x: dx * limit, y: dy * limit };
+      state.value = { x: state.knob.x / radius, y: state.knob.y / radius };
+      directionKeys(state.value, control.keys).forEach(key => state.keys.add(key));
+    };
+
+    // Press/release keys so the keyboard store matches every control
+    const syncKeys = () => {
+      const wanted = new Set<string>();
+      states.current.forEach(state => state?.keys.forEach(key => wanted.add(key)));
+      heldKeys.current.forEach(key => {
+        if (!wanted.has(key)) keyboardStore.release(key);
+      });
+      wanted.forEach(key => {
+        if (!heldKeys.current.has(key)) keyboardStore.press(key);
+      });
+      heldKeys.current = wanted;
+    };
+
+    const owner = new Map<number, number>();
+
+    const handleStart = (e: TouchEvent) => {
+      visible.current = true;
+      Array.from(e.changedTouches).forEach(touch => {
+        const point = toCanvas(touch);
+        const index = hitTest(point);
+        if (index === -1) return;
+        e.preventDefault();
+        owner.set(touch.identifier, index);
+        const state = getState(index);
+        state.touches.add(touch.identifier);
+        const control = controlsRef.current[index];
+        if (control.type === 'stick') {
+          state.center = control.x !== undefined && control.y !== undefined
+            ? { x: control.x, y: control.y }
+            : point;
+        }
+        apply(index, point);
+      });
+      syncKeys();
+    };
+
+    const handleMove = (e: TouchEvent) => {
+      Array.from(e.changedTouches).forEach(touch => {
+        const index = owner.get(touch.identifier);
+        if (index === undefined) return;
+        e.preventDefault();
+        const point = toCanvas(touch);
+        const control = controlsRef.current[index];
+        // Buttons only stay held while the finger is on them
+        const onButton = control.type !== 'button'
+          || Math.hypot(point.x - control.x, point.y - control.y) <= (control.radius ?? 36) * 1.2;
+        apply(index, onButton ? point : null);
+      });
+      syncKeys();
+    };
+
+    const handleEnd = (e: TouchEvent) => {
+      Array.from(e.changedTouches).forEach(touch => {
+        const index = owner.get(touch.identifier);
+        if (index === undefined) return;
+        owner.delete(touch.identifier);
+        const state = getState(index);
+        state.touches.delete(touch.identifier);
+        if (state.touches.size === 0) apply(index, null);
+      });
+      syncKeys();
+    };
+
+    target.addEventListener('touchstart', handleStart, { passive: false });
+    target.addEventListener('touchmove', handleMove, { passive: false });
+    target.addEventListener('touchend', handleEnd);
+    target.addEventListener('touchcancel', handleEnd);
+
+    return () => {
+      target.removeEventListener('touchstart', handleStart);
+      target.removeEventListener('touchmove', handleMove);
+      target.removeEventListener('touchend', handleEnd);
+      target.removeEventListener('touchcancel', handleEnd);
+      heldKeys.current.forEach(key => keyboardStore.release(key));
+      heldKeys.current = new Set();
+      states.current = [];
+    };
+  }, [element, enabled]);
+
+  // Stable controller so the game loop never reads stale values
+  return useMemo(() => ({
+    /** Whether the controls are shown */
+    get visible() {
+      return visible.current;
+    },
+
+    /** Analog value of a stick or d-pad (first one, or by id) */
+    stick: (id?: string): Vector2D => {
+      const index = controlsRef.current.findIndex(c =>
+        c.type !== 'button' && (id === undefined || c.id === id)
+      );
+      return states.current[index]?.value ?? { x: 0, y: 0 };
+    },
+
+    /** Whether a button (by id or key) is held */
+    isHeld: (idOrKey: string) => {
+      const index = controlsRef.current.findIndex(c =>
+        c.type === 'button' && (c.id === idOrKey || c.key === idOrKey)
+      );
+      return (states.current[index]?.touches.size ?? 0) > 0;
+    },
+
+    /**
+     * Draw the controls (call after drawing the game)
+     */
+    render: (ctx: CanvasRenderingContext2D) => {
+      if (!visible.current) return;
+      const color = optionsRef.current.color ?? '#ffffff';
+
+      ctx.save();
+      ctx.strokeStyle = color;
+      ctx.fillStyle = color;
+      ctx.lineWidth = 2;
+      ctx.textAlign = 'center';
+      ctx.textBaseline = 'middle';
+
+      controlsRef.current.forEach((control, index) => {
+        const state = states.current[index];
+        const active = (state?.touches.size ?? 0) > 0;
+
+        if (control.type === 'button') {
+          const radius = control.radius ?? 36;
+          ctx.globalAlpha = active ? 0.5 : 0.25;
+          ctx.beginPath();
+          ctx.arc(control.x, control.y, radius, 0, Math.PI * 2);
+          ctx.fill();
+          if (control.label) {
+            ctx.globalAlpha = 0.8;
+            ctx.font = 'bold 14px system-ui';
+            ctx.fillText(control.label, control.x, control.y);
+          }
+          return;
+        }
+
+        if (control.type === 'dpad') {
+          const size = control.size ?? 120;
+          const arm = size / 3;
+          ctx.globalAlpha = 0.25;
+          ctx.fillRect(control.x - arm / 2, control.y - size / 2, arm, size);
+          ctx.fillRect(control.x - size / 2, control.y - arm / 2, size, arm);
+          if (active && state) {
+            ctx.globalAlpha = 0.5;
+            ctx.beginPath();
+            ctx.arc(control.x + state.value.x * arm, control.y + state.value.y * arm, arm / 2, 0, Math.PI * 2);
+            ctx.fill();
+          }
+          return;
+        }
+
+        // Floating sticks show a hint at the zone center until grabbed
+        const radius = control.radius ?? 60;
+        const { width = DEFAULT_CONFIG.width, height = DEFAULT_CONFIG.height } = optionsRef.current;
+        const zone = control.zone ?? { x: 0, y: 0, width: 0.5, height: 1 };
+        const center = state?.center
+          ?? (control.x !== undefined && control.y !== undefined
+            ? { x: control.x, y: control.y }
+            : { x: (zone.x + zone.width / 2) * width, y: (zone.y + zone.height * 0.75) * height });
+
+        ctx.globalAlpha = active ? 0.4 : 0.15;
+        ctx.beginPath();
+        ctx.arc(center.x, center.y, radius, 0, Math.PI * 2);
+        ctx.stroke();
+        ctx.globalAlpha = active ? 0.5 : 0.2;
+        ctx.beginPath();
+        ctx.arc(center.x + (state?.knob.x ?? 0), center.y + (state?.knob.y ?? 0), radius * 0.45, 0, Math.PI * 2);
+        ctx.fill();
+      });
+
+      ctx.restore();
+    },
+  }), []);
+}
@@ -1,4 +1,19 @@
 // Re-export everything for convenient imports
 export * from './types';
 export * from './utils';
+export * from './random';
+export * from './time';
+export * from './stateMachine';
+export * from './storage';
+export * from './input';
+export * from './inputStore';
+export * from './gestures';
+export * from './gamepad';
+export * from './viewport';
+export * from './camera';
+export * from './sprites';
+export * from './assets';
+export * from './tilemap';
+export * from './renderer';
+export * from './replay';
 export * from './hooks';
@@ -0,0 +1,344 @@
+import { Vector2D } from './types';
+import type { GamepadLike } from './gamepad';
+
+/**
+ * Input actions
+ *
+ * Games declare named actions ("moveX", "fire", "jump") and bind them to
+ * keys, mouse buttons, touch zones and gamepad controls. Each frame the raw
+ * device state is reduced to one value per action, so game code reads
+ * `fire.pressed` without caring which device produced it.
+ */
+
+/**
+ * Button indices of the standard gamepad mapping
+ */
+export const GamepadButton = {
+  A: 0,
+  B: 1,
+  X: 2,
+  Y: 3,
+  LeftBumper: 4,
+  RightBumper: 5,
+  LeftTrigger: 6,
+  RightTrigger: 7,
+  Back: 8,
+  Start: 9,
+  LeftStick: 10,
+  RightStick: 11,
+  DpadUp: 12,
+  DpadDown: 13,
+  DpadLeft: 14,
+  DpadRight: 15,
+} as const;
+
+/**
+ * Axis indices of the standard gamepad mapping
+ */
+export const GamepadAxis = {
+  LeftX: 0,
+  LeftY: 1,
+  RightX: 2,
+  RightY: 3,
+} as const;
+
+/**
+ * Rectangle of the input element, in fractions (0-1) of its size
+ */
+export interface TouchZone {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Something that can drive an action
+ * - a KeyboardEvent.code string, e.g. 'KeyA', 'Space', 'ArrowLeft'
+ * - `{ mouse: 0 }`: a mouse button (0 left, 1 middle, 2 right)
+ * - `{ touch: zone }`: any touch inside a zone of the element
+ * - `{ gamepad: GamepadButton.A }`: a gamepad button (any pad unless `pad` is set)
+ * - `{ gamepadAxis, direction }`: one half of a stick, as a button
+ */
+export type InputBinding =
+  | string
+  | { mouse: number }
+  | { touch: TouchZone }
+  | { gamepad: number; pad?: number }
+  | { gamepadAxis: number; direction: 1 | -1; pad?: number };
+
+/**
+ * Action definition
+ * Button actions use `bindings` (value 0-1). Axis actions combine
+ * `negative`/`positive` bindings with an optional analog stick axis (value -1 to 1).
+ */
+export interface ActionDefinition {
+  /** Name shown in the controls settings (default: the action's key) */
+  label?: string;
+  /** Settings label for the negative side of an axis, e.g. 'Left' */
+  negativeLabel?: string;
+  /** Settings label for the positive side of an axis, e.g. 'Right' */
+  positiveLabel?: string;
+  /** Bindings that press a button action */
+  bindings?: InputBinding[];
+  /** Axis bindings pushing towards -1 */
+  negative?: InputBinding[];
+  /** Axis bindings pushing towards +1 */
+  positive?: InputBinding[];
+  /** Analog gamepad axis added to an axis action (see GamepadAxis) */
+  gamepadAxis?: number;
+  /** Analog values below this count as 0 (default: 0.2) */
+  deadzone?: number;
+}
+
+export type ActionMap = Record<string, ActionDefinition>;
+
+/**
+ * Per-frame state of an action
+ */
+export interface ActionState {
+  /** 0-1 for buttons, -1 to 1 for axes */
+  readonly value: number;
+  /** Whether the action is held (|value| >= 0.5) */
+  readonly pressed: boolean;
+  /** Pressed this frame but not the previous one */
+  readonly justPressed: boolean;
+  /** Released this frame after being held */
+  readonly justReleased: boolean;
+}
+
+/**
+ * Raw device state the actions are read from
+ */
+export interface RawInput {
+  /** Held KeyboardEvent.code values */
+  keys: Pick<ReadonlySet<string>, 'has'>;
+  /** Held mouse buttons */
+  mouseButtons: ReadonlySet<number>;
+  /** Active touches, in fractions (0-1) of the input element */
+  touches: readonly Vector2D[];
+  /** Connected gamepads, indexed by pad index */
+  gamepads: readonly (GamepadLike | null)[];
+}
+
+/** Analog values at or above this count as pressed */
+export const PRESS_THRESHOLD = 0.5;
+
+const DEFAULT_DEADZONE = 0.2;
+
+/** Apply a deadzone and rescale so values still start at 0 */
+export function applyDeadzone(value: number, deadzone = DEFAULT_DEADZONE): number {
+  const magnitude = Math.abs(value);
+  if (magnitude < deadzone) return 0;
+  return Math.sign(value) * Math.min(1, (magnitude - deadzone) / (1 - deadzone));
+}
+
+/** Pads a binding applies to */
+function padsFor(raw: RawInput, pad?: number): (GamepadLike | null)[] {
+  return pad === undefined ? [...raw.gamepads] : [raw.gamepads[pad] ?? null];
+}
+
+/**
+ * Read one binding (0-1)
+ */
+export function readBinding(binding: InputBinding, raw: RawInput, deadzone = DEFAULT_DEADZONE): number {
+  if (typeof binding === 'string') return raw.keys.has(binding) ? 1 : 0;
+
+  if ('mouse' in binding) return raw.mouseButtons.has(binding.mouse) ? 1 : 0;
+
+  if ('touch' in binding) {
+    const { x, y, width, height } = binding.touch;
+    return raw.touches.some(t => t.x >= x && t.x <= x + width && t.y >= y && t.y <= y + height) ? 1 : 0;
+  }
+
+  if ('gamepad' in binding) {
+    return padsFor(raw, binding.pad).reduce(
+      (max, pad) => Math.max(max, pad?.buttons[binding.gamepad]?.value ?? 0),
+      0
+    );
+  }
+
+  return padsFor(raw, binding.pad).reduce((max, pad) => {
+    const value = applyDeadzone(pad?.axes[binding.gamepadAxis] ?? 0, deadzone) * binding.direction;
+    return Math.max(max, value);
+  }, 0);
+}
+
+/** Strongest of a list of bindings */
+function readBindings(bindings: InputBinding[] | undefined, raw: RawInput, deadzone?: number): number {
+  return (bindings ?? []).reduce((max, binding) => Math.max(max, readBinding(binding, raw, deadzone)), 0);
+}
+
+/**
+ * Read an action's value: 0-1 for buttons, -1 to 1 for axes
+ */
+export function readAction(definition: ActionDefinition, raw: RawInput): number {
+  const { deadzone } = definition;
+  const isAxis = definition.negative || definition.positive || definition.gamepadAxis !== undefined;
+  if (!isAxis) return readBindings(definition.bindings, raw, deadzone);
+
+  let value = readBindings(definition.positive, raw, deadzone) - readBindings(definition.negative, raw, deadzone);
+  if (definition.gamepadAxis !== undefined) {
+    for (const pad of raw.gamepads) {
+      const analog = applyDeadzone(pad?.axes[definition.gamepadAxis] ?? 0, deadzone);
+      if (Math.abs(analog) > Math.abs(value)) value = analog;
+    }
+  }
+  return Math.max(-1, Math.min(1, value));
+}
+
+/**
+ * Rebindable binding lists of an action
+ */
+export type BindingList = 'bindings' | 'negative' | 'positive';
+
+/**
+ * Player binding changes, by action then list (replaces the default list)
+ */
+export type BindingOverrides = Record<string, Partial<Record<BindingList, InputBinding[]>>>;
+
+const BINDING_LISTS: readonly BindingList[] = ['bindings', 'negative', 'positive'];
+
+const isNumber = (value: unknown): value is number => typeof value === 'number' && Number.isFinite(value);
+
+/**
+ * Whether a value is a well-formed binding (e.g. one read from a save)
+ */
+export function isInputBinding(value: unknown): value is InputBinding {
+  if (typeof value === 'string') return value.length > 0;
+  if (!value || typeof value !== 'object') return false;
+  const binding = value as Record<string, unknown>;
+  if (binding.pad !== undefined && !isNumber(binding.pad)) return false;
+  if ('mouse' in binding) return isNumber(binding.mouse);
+  if ('touch' in binding) {
+    const zone = binding.touch as Record<string, unknown> | null;
+    return !!zone && typeof zone === 'object'
+      && isNumber(zone.x) && isNumber(zone.y) && isNumber(zone.width) && isNumber(zone.height);
+  }
+  if ('gamepadAxis' in binding) {
+    return isNumber(binding.gamepadAxis) && (binding.direction === 1 || binding.direction === -1);
+  }
+  if ('gamepad' in binding) return isNumber(binding.gamepad);
+  return false;
+}
+
+/**
+ * Keep only well-formed override lists; anything else (an edited save, an
+ * older format) is dropped so the default bindings apply
+ */
+export function sanitizeBindingOverrides(data: unknown): BindingOverrides {
+  const result: BindingOverrides = {};
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return result;
+
+  for (const [action, lists] of Object.entries(data)) {
+    if (!lists || typeof lists !== 'object' || Array.isArray(lists)) continue;
+    const valid: Partial<Record<BindingList, InputBinding[]>> = {};
+    for (const list of BINDING_LISTS) {
+      const bindings: unknown = (lists as Record<string, unknown>)[list];
+      if (Array.isArray(bindings) && bindings.every(isInputBinding)) valid[list] = bindings;
+    }
+    if (Object.keys(valid).length > 0) result[action] = valid;
+  }
+  return result;
+}
+
+/**
+ * Whether two bindings refer to the same control
+ */
+export function bindingsEqual(a: InputBinding, b: InputBinding): boolean {
+  if (typeof a === 'string' || typeof b === 'string') return a === b;
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+/**
+ * Apply binding overrides on top of default actions
+ */
+export function applyBindingOverrides<T extends ActionMap>(actions: T, overrides: BindingOverrides): T {
+  const result: ActionMap = {};
+  for (const [name, definition] of Object.entries(actions)) {
+    result[name] = { ...definition, ...overrides[name] };
+  }
+  return result as T;
+}
+
+/**
+ * The lists of an action that can be rebound, in display order
+ */
+export function bindingListsOf(definition: ActionDefinition): BindingList[] {
+  const isAxis = definition.negative || definition.positive || definition.gamepadAxis !== undefined;
+  return isAxis ? ['negative', 'positive'] : ['bindings'];
+}
+
+/**
+ * A binding shared by more than one action (or both sides of an axis)
+ */
+export interface BindingConflict {
+  binding: InputBinding;
+  uses: { action: string; list: BindingList }[];
+}
+
+/**
+ * Find bindings used in more than one place
+ */
+export function findBindingConflicts(actions: ActionMap): BindingConflict[] {
+  const conflicts: BindingConflict[] = [];
+  for (const [action, definition] of Object.entries(actions)) {
+    for (const list of bindingListsOf(definition)) {
+      for (const binding of definition[list] ?? []) {
+        const existing = conflicts.find(c => bindingsEqual(c.binding, binding));
+        if (existing) {
+          if (!existing.uses.some(u => u.action === action && u.list === list)) existing.uses.push({ action, list });
+        } else {
+          conflicts.push({ binding, uses: [{ action, list }] });
+        }
+      }
+    }
+  }
+  return conflicts.filter(c => c.uses.length > 1);
+}
+
+const KEY_NAMES: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Space: 'Space',
+  Enter: 'Enter',
+  Escape: 'Esc',
+  Backspace: 'Backspace',
+  Tab: 'Tab',
+  ShiftLeft: 'Left Shift',
+  ShiftRight: 'Right Shift',
+  ControlLeft: 'Left Ctrl',
+  ControlRight: 'Right Ctrl',
+  AltLeft: 'Left Alt',
+  AltRight: 'Right Alt',
+};
+
+const MOUSE_NAMES = ['Left Click', 'Middle Click', 'Right Click'];
+
+const GAMEPAD_NAMES = Object.fromEntries(Object.entries(GamepadButton).map(([name, index]) => [index, name]));
+const STICK_NAMES = ['Left Stick X', 'Left Stick Y', 'Right Stick X', 'Right Stick Y'];
+
+/**
+ * Human-readable name of a binding
+ * Pass a keyboard layout map (navigator.keyboard.getLayoutMap()) to show
+ * the character printed on the player's key, e.g. 'Q' for KeyA on AZERTY.
+ */
+export function describeBinding(binding: InputBinding, layout?: { get: (code: string) => string | undefined }): string {
+  if (typeof binding === 'string') {
+    const printed = layout?.get(binding);
+    if (printed && printed.trim()) return printed.toUpperCase();
+    if (KEY_NAMES[binding]) return KEY_NAMES[binding];
+    if (binding.startsWith('Key')) return binding.slice(3);
+    if (binding.startsWith('Digit')) return binding.slice(5);
+    if (binding.startsWith('Numpad')) return `Num ${binding.slice(6)}`;
+    return binding;
+  }
+  if ('mouse' in binding) return MOUSE_NAMES[binding.mouse] ?? `Mouse ${binding.mouse}`;
+  if ('touch' in binding) return 'Touch';
+  const pad = binding.pad !== undefined ? ` (Pad ${binding.pad + 1})` : '';
+  if ('gamepad' in binding) return `${GAMEPAD_NAMES[binding.gamepad] ?? `Button ${binding.gamepad}`}${pad}`;
+  const stick = STICK_NAMES[binding.gamepadAxis] ?? `Axis ${binding.gamepadAxis}`;
+  return `${stick} ${binding.direction > 0 ? '+' : '−'}${pad}`;
+}
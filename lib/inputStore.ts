@@ -0,0 +1,414 @@
+import { Vector2D } from './types';
+import { getGameTick } from './time';
+import { createGestureRecognizer, GestureEvent, GestureOptions } from './gestures';
+import { getViewport } from './viewport';
+
+/**
+ * Ref-backed input stores
+ *
+ * Device state lives outside React: DOM events write to a store and the game
+ * loop reads it synchronously, so input never re-renders the component. UI
+ * that does need to re-render (e.g. a "hold to skip" bar) subscribes with
+ * useInputValue.
+ *
+ * Press/release edges are stamped with the game-loop step they belong to
+ * (the next one), so justPressed/justReleased hold for exactly one step and
+ * taps between two frames are still seen.
+ */
+
+/**
+ * Anything UI can subscribe to
+ */
+export interface InputStore {
+  /** Listen for changes; returns an unsubscribe function */
+  subscribe: (listener: () => void) => () => void;
+}
+
+/**
+ * Keyboard state shared by every useKeyboard / useInputActions
+ */
+export interface KeyboardStore extends InputStore {
+  /** Currently held KeyboardEvent.code values */
+  readonly keys: ReadonlySet<string>;
+  isPressed: (code: string) => boolean;
+  /** Pressed since the previous game-loop step */
+  justPressed: (code: string) => boolean;
+  /** Released since the previous game-loop step */
+  justReleased: (code: string) => boolean;
+  /** Press a key programmatically (virtual controls, replays) */
+  press: (code: string) => void;
+  /** Release a key programmatically */
+  release: (code: string) => void;
+  /** Release every held key */
+  releaseAll: () => void;
+  /** Attach window listeners (reference counted); returns a disconnect function */
+  connect: () => () => void;
+  /** Whether device events are being ignored (replay playback) */
+  readonly blocked: boolean;
+  /** Ignore device events until the returned function is called; programmatic presses still work */
+  block: () => () => void;
+}
+
+/**
+ * An active pointer (mouse button, finger or pen)
+ */
+export interface PointerInfo {
+  readonly id: number;
+  readonly type: string;
+  /** Mouse button that pressed it (0 for touch and pen) */
+  readonly button: number;
+  /** Current position, in canvas pixels */
+  readonly position: Vector2D;
+  /** Where the pointer went down */
+  readonly start: Vector2D;
+}
+
+/**
+ * Pointer (mouse/touch/pen) state for one element
+ */
+export interface PointerStore extends InputStore {
+  /** Primary pointer position (first finger down, else the mouse), in canvas pixels */
+  readonly position: Vector2D;
+  /** Whether any pointer is down */
+  readonly isDown: boolean;
+  /** A pointer went down since the previous game-loop step */
+  readonly justPressed: boolean;
+  /** The last pointer went up since the previous game-loop step */
+  readonly justReleased: boolean;
+  /** Every pointer currently down, by pointer id */
+  readonly pointers: ReadonlyMap<number, PointerInfo>;
+  /** Pointers that went down since the previous game-loop step, even if already up */
+  readonly pressed: readonly PointerInfo[];
+  /** Element positions are relative to (null: the window) */
+  readonly element: HTMLElement | null;
+  /** Gestures recognised since the previous game-loop step */
+  readonly gestures: readonly GestureEvent[];
+  /** Listen for gestures as they are recognised; returns an unsubscribe function */
+  onGesture: (listener: (gesture: GestureEvent) => void) => () => void;
+  move: (id: number, position: Vector2D) => void;
+  press: (id: number, position: Vector2D, type?: string, button?: number) => void;
+  release: (id: number, position?: Vector2D) => void;
+  /** Drop a pointer without recognising a gesture (pointercancel) */
+  cancel: (id: number) => void;
+  /** Stop timers and forget every pointer */
+  dispose: () => void;
+  /** Track pointer events on an element (or the window); returns a disconnect function */
+  connect: (element: HTMLElement | null) => () => void;
+  /** Whether device events are being ignored (replay playback) */
+  readonly blocked: boolean;
+  /** Ignore device events until the returned function is called; programmatic calls still work */
+  block: () => () => void;
+}
+
+/** Reference-counted block; releases held input when it starts */
+function createBlocker(onBlock: () => void) {
+  let blocks = 0;
+  return {
+    get blocked() {
+      return blocks > 0;
+    },
+    block: () => {
+      if (blocks++ === 0) onBlock();
+      let released = false;
+      return () => {
+        if (released) return;
+        released = true;
+        blocks--;
+      };
+    },
+  };
+}
+
+/** Listener set with a notify helper */
+function createListeners() {
+  const listeners = new Set<() => void>();
+  return {
+    subscribe: (listener: () => void) => {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+    notify: () => listeners.forEach(listener => listener()),
+  };
+}
+
+/**
+ * Create a keyboard store
+ */
+export function createKeyboardStore(): KeyboardStore {
+  const keys = new Set<string>();
+  // Step in which each key's latest press/release is visible
+  const pressedAt = new Map<string, number>();
+  const releasedAt = new Map<string, number>();
+  const { subscribe, notify } = createListeners();
+  let connections = 0;
+  let detach: (() => void) | null = null;
+
+  const press = (code: string) => {
+    if (keys.has(code)) return;
+    keys.add(code);
+    pressedAt.set(code, getGameTick() + 1);
+    notify();
+  };
+
+  const release = (code: string) => {
+    if (!keys.delete(code)) return;
+    releasedAt.set(code, getGameTick() + 1);
+    notify();
+  };
+
+  const releaseAll = () => {
+    Array.from(keys).forEach(release);
+  };
+
+  const blocker = createBlocker(releaseAll);
+
+  const attach = () => {
+    const handleDown = (e: KeyboardEvent) => {
+      if (!blocker.blocked) press(e.code);
+    };
+    const handleUp = (e: KeyboardEvent) => {
+      if (!blocker.blocked) release(e.code);
+    };
+    // Key-ups are missed while the window is unfocused
+    const handleBlur = () => {
+      if (!blocker.blocked) releaseAll();
+    };
+
+    window.addEventListener('keydown', handleDown);
+    window.addEventListener('keyup', handleUp);
+    window.addEventListener('blur', handleBlur);
+    return () => {
+      window.removeEventListener('keydown', handleDown);
+      window.removeEventListener('keyup', handleUp);
+      window.removeEventListener('blur', handleBlur);
+    };
+  };
+
+  return {
+    get keys() {
+      return keys;
+    },
+    isPressed: code => keys.has(code),
+    justPressed: code => pressedAt.get(code) === getGameTick(),
+    justReleased: code => releasedAt.get(code) === getGameTick(),
+    press,
+    release,
+    releaseAll,
+    subscribe,
+    get blocked() {
+      return blocker.blocked;
+    },
+    block: blocker.block,
+    connect: () => {
+      if (typeof window === 'undefined') return () => {};
+      if (connections++ === 0) detach = attach();
+      return () => {
+        if (--connections === 0) {
+          detach?.();
+          detach = null;
+          releaseAll();
+        }
+      };
+    },
+  };
+}
+
+/**
+ * Create a pointer store (one per tracked element)
+ */
+export function createPointerStore(gestureOptions: GestureOptions = {}): PointerStore {
+  let hover: Vector2D = { x: 0, y: 0 };
+  const pointers = new Map<number, PointerInfo>();
+  let pressedAt = -1;
+  let releasedAt = -1;
+  let element: HTMLElement | null = null;
+  // Presses stamped with the step they belong to
+  let presses: { tick: number; pointer: PointerInfo }[] = [];
+  // Gestures stamped with the step they belong to
+  let gestures: { tick: number; gesture: GestureEvent }[] = [];
+  const gestureListeners = new Set<(gesture: GestureEvent) => void>();
+  const { subscribe, notify } = createListeners();
+
+  const recognizer = createGestureRecognizer(gesture => {
+    const tick = getGameTick() + 1;
+    // Keep only gestures still to be seen, and one pinch/rotate per step
+    gestures = gestures.filter(g =>
+      g.tick >= tick && !(g.tick === tick && g.gesture.type === gesture.type && (gesture.type === 'pinch' || gesture.type === 'rotate'))
+    );
+    gestures.push({ tick, gesture });
+    gestureListeners.forEach(listener => listener(gesture));
+  }, gestureOptions);
+
+  const primary = () => pointers.values().next().value as PointerInfo | undefined;
+
+  const cancelAll = () => {
+    Array.from(pointers.keys()).forEach(id => store.cancel(id));
+  };
+  const blocker = createBlocker(() => cancelAll());
+
+  const store: PointerStore = {
+    get position() {
+      return primary()?.position ?? hover;
+    },
+    get isDown() {
+      return pointers.size > 0;
+    },
+    get justPressed() {
+      return pressedAt === getGameTick();
+    },
+    get justReleased() {
+      return releasedAt === getGameTick();
+    },
+    get pointers() {
+      return pointers;
+    },
+    get pressed() {
+      const tick = getGameTick();
+      return presses.filter(p => p.tick === tick).map(p => p.pointer);
+    },
+    get element() {
+      return element;
+    },
+    get gestures() {
+      const tick = getGameTick();
+      return gestures.filter(g => g.tick === tick).map(g => g.gesture);
+    },
+    onGesture: listener => {
+      gestureListeners.add(listener);
+      return () => {
+        gestureListeners.delete(listener);
+      };
+    },
+    move: (id, position) => {
+      const pointer = pointers.get(id);
+      if (pointer) {
+        pointers.set(id, { ...pointer, position });
+        recognizer.move(id, position, performance.now());
+      } else {
+        hover = position;
+      }
+      notify();
+    },
+    press: (id, position, type = 'mouse', button = 0) => {
+      hover = position;
+      const pointer = { id, type, button, position, start: position };
+      pointers.set(id, pointer);
+      pressedAt = getGameTick() + 1;
+      presses = presses.filter(p => p.tick >= pressedAt);
+      presses.push({ tick: pressedAt, pointer });
+      recognizer.down(id, position, performance.now());
+      notify();
+    },
+    release: (id, position) => {
+      const pointer = pointers.get(id);
+      if (!pointer) return;
+      pointers.delete(id);
+      hover = position ?? pointer.position;
+      if (pointers.size === 0) releasedAt = getGameTick() + 1;
+      recognizer.up(id, hover, performance.now());
+      notify();
+    },
+    cancel: id => {
+      if (!pointers.delete(id)) return;
+      if (pointers.size === 0) releasedAt = getGameTick() + 1;
+      recognizer.cancel(id);
+      notify();
+    },
+    dispose: () => {
+      recognizer.dispose();
+      pointers.clear();
+      gestures = [];
+      presses = [];
+    },
+    connect: target => connectPointerStore(store, target, next => {
+      element = next;
+    }),
+    get blocked() {
+      return blocker.blocked;
+    },
+    block: blocker.block,
+    subscribe,
+  };
+
+  return store;
+}
+
+/** Attach DOM pointer listeners to a store */
+function connectPointerStore(
+  store: PointerStore,
+  target: HTMLElement | null,
+  setElement: (element: HTMLElement | null) => void
+): () => void {
+  if (typeof window === 'undefined') return () => {};
+  setElement(target);
+
+  // Canvas pixels via the canvas's viewport (DPR, CSS scale and letterboxing
+  // included); other elements report CSS pixels relative to themselves
+  const getPosition = (clientX: number, clientY: number): Vector2D => {
+    const viewport = getViewport(target);
+    if (viewport) return viewport.screenToCanvas({ x: clientX, y: clientY });
+    if (target) {
+      const rect = target.getBoundingClientRect();
+      return { x: clientX - rect.left, y: clientY - rect.top };
+    }
+    return { x: clientX, y: clientY };
+  };
+
+  const handlePointerDown = (e: PointerEvent) => {
+    if (store.blocked) return;
+    // Keep receiving moves when the pointer leaves the element
+    if (target && e.target instanceof Element && e.target.hasPointerCapture?.(e.pointerId) === false) {
+      e.target.setPointerCapture?.(e.pointerId);
+    }
+    store.press(e.pointerId, getPosition(e.clientX, e.clientY), e.pointerType, Math.max(0, e.button));
+  };
+
+  const handlePointerMove = (e: PointerEvent) => {
+    if (store.blocked) return;
+    store.move(e.pointerId, getPosition(e.clientX, e.clientY));
+  };
+
+  const handlePointerUp = (e: PointerEvent) => {
+    if (store.blocked) return;
+    store.release(e.pointerId, getPosition(e.clientX, e.clientY));
+  };
+
+  const handlePointerCancel = (e: PointerEvent) => {
+    if (store.blocked) return;
+    store.cancel(e.pointerId);
+  };
+
+  // Releases are missed while the window is unfocused
+  const handleBlur = () => {
+    if (!store.blocked) store.pointers.forEach(pointer => store.cancel(pointer.id));
+  };
+
+  const source = target || window;
+  // Stop the browser panning/zooming so multi-finger touches reach the game
+  const previousTouchAction = target?.style.touchAction;
+  if (target) target.style.touchAction = 'none';
+
+  source.addEventListener('pointerdown', handlePointerDown as EventListener);
+  source.addEventListener('pointermove', handlePointerMove as EventListener);
+  window.addEventListener('pointerup', handlePointerUp);
+  window.addEventListener('pointercancel', handlePointerCancel);
+  window.addEventListener('blur', handleBlur);
+
+  return () => {
+    source.removeEventListener('pointerdown', handlePointerDown as EventListener);
+    source.removeEventListener('pointermove', handlePointerMove as EventListener);
+    window.removeEventListener('pointerup', handlePointerUp);
+    window.removeEventListener('pointercancel', handlePointerCancel);
+    window.removeEventListener('blur', handleBlur);
+    if (target) target.style.touchAction = previousTouchAction ?? '';
+    handleBlur();
+    setElement(null);
+  };
+}
+
+/**
+ * Keyboard shared by the whole game
+ */
+export const keyboardStore = createKeyboardStore();
@@ -0,0 +1,167 @@
+/**
+ * Seeded random numbers
+ *
+ * `Random` is a small deterministic generator (mulberry32): the same seed
+ * always produces the same sequence, so runs can be replayed and everyone
+ * can play the same daily challenge. Fork separate streams for gameplay and
+ * cosmetics so extra particles never change where the next enemy spawns.
+ */
+
+/**
+ * Anything that produces numbers in [0, 1) - a Random, or Math.random wrapped
+ */
+export interface RandomSource {
+  next: () => number;
+}
+
+/** Unseeded source backed by Math.random (the default everywhere) */
+export const mathRandom: RandomSource = { next: () => Math.random() };
+
+/** A fresh 32-bit seed */
+export function randomSeed(): number {
+  return Math.floor(Math.random() * 4294967296);
+}
+
+/**
+ * Hash a string to a 32-bit seed (FNV-1a)
+ * e.g. hashSeed('daily-2026-10-19')
+ */
+export function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Seedable pseudo-random number generator
+ *
+ * Usage:
+ * ```
+ * const rng = new Random(hashSeed(`daily-${today}`));
+ * const gameplay = rng.fork('gameplay');
+ * const fx = rng.fork('fx');
+ *
+ * gameplay.int(1, 6);                          // dice roll
+ * gameplay.pick(['a', 'b', 'c']);
+ * gameplay.weighted([{ value: 'common', weight: 9 }, { value: 'rare', weight: 1 }]);
+ * fx.gaussian(0, 5);                           // jitter
+ * ```
+ */
+export class Random implements RandomSource {
+  private initialSeed: number;
+  private state: number;
+
+  constructor(seed: number = randomSeed()) {
+    this.initialSeed = seed >>> 0;
+    this.state = this.initialSeed;
+  }
+
+  /** Create a generator from a string seed (e.g. a date for daily challenges) */
+  static fromString(text: string): Random {
+    return new Random(hashSeed(text));
+  }
+
+  /** The seed this generator started from */
+  get seed(): number {
+    return this.initialSeed;
+  }
+
+  /** Restart the sequence from a seed (the current one by default) */
+  reseed(seed: number = this.initialSeed): void {
+    this.initialSeed = seed >>> 0;
+    this.state = this.initialSeed;
+  }
+
+  /** Internal state, to save and later restore the exact position in the sequence */
+  getState(): number {
+    return this.state;
+  }
+
+  setState(state: number): void {
+    this.state = state >>> 0;
+  }
+
+  /** Next number in [0, 1) */
+  next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Number in [min, max) */
+  range(min: number, max: number): number {
+    return this.next() * (max - min) + min;
+  }
+
+  /** Integer in [min, max] (inclusive) */
+  int(min: number, max: number): number {
+    return Math.floor(this.range(min, max + 1));
+  }
+
+  /** True with the given probability (0-1) */
+  chance(probability: number): boolean {
+    return this.next() < probability;
+  }
+
+  /** -1 or 1 */
+  sign(): 1 | -1 {
+    return this.next() < 0.5 ? -1 : 1;
+  }
+
+  /** Angle in radians, [0, 2π) */
+  angle(): number {
+    return this.next() * Math.PI * 2;
+  }
+
+  /** Random item of an array (undefined if empty) */
+  pick<T>(array: readonly T[]): T {
+    return array[Math.floor(this.next() * array.length)];
+  }
+
+  /** Random item, each chosen in proportion to its weight */
+  weighted<T>(choices: readonly { value: T; weight: number }[]): T {
+    const total = choices.reduce((sum, choice) => sum + Math.max(0, choice.weight), 0);
+    let roll = this.next() * total;
+    for (const choice of choices) {
+      roll -= Math.max(0, choice.weight);
+      if (roll < 0) return choice.value;
+    }
+    return choices[choices.length - 1].value;
+  }
+
+  /** Shuffled copy of an array (Fisher-Yates) */
+  shuffle<T>(array: readonly T[]): T[] {
+    const result = [...array];
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(this.next() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  }
+
+  /** Normally distributed number (Box-Muller) */
+  gaussian(mean = 0, stdDev = 1): number {
+    // 1 - next() keeps the log argument in (0, 1]
+    const u = 1 - this.next();
+    const v = this.next();
+    return mean + stdDev * Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+  }
+
+  /**
+   * Independent stream derived from this generator's seed and a name
+   * Doesn't advance this generator, so adding a fork never shifts its sequence.
+   */
+  fork(name: string): Random {
+    return new Random(hashSeed(`${this.initialSeed}:${name}`));
+  }
+
+  /** New generator seeded from this one's next value (advances this generator) */
+  split(): Random {
+    return new Random(Math.floor(this.next() * 4294967296));
+  }
+}
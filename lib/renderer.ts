@@ -0,0 +1,259 @@
+import { Rect } from './types';
+import { Camera } from './camera';
+import { IDENTITY_TRANSFORM, Transform2D, applyTransform, invertTransform, multiplyTransform } from './viewport';
+
+/**
+ * Layered rendering
+ *
+ * Named layers draw in z order, each with its own space (world under the
+ * camera and shake, or screen for the HUD), opacity and blend mode. Things
+ * drawn into a layer are z-sorted within it, and every draw call runs
+ * between save/restore, so a glow's shadowBlur or a changed fillStyle never
+ * leaks into the next one.
+ *
+ * Anything with the shape `(ctx, visible) => void` is a layer participant -
+ * useParticles' `render` plugs straight in, and useScreenShake's `apply` is
+ * the renderer's shake.
+ */
+
+/**
+ * Draws into a layer; `visible` is the layer-space area on screen (for culling)
+ */
+export type LayerDraw = (ctx: CanvasRenderingContext2D, visible: Rect) => void;
+
+/**
+ * Layer settings
+ */
+export interface RenderLayerOptions {
+  /** Lower draws first */
+  z?: number;
+  /** 'world' layers draw under the camera; 'screen' layers in canvas pixels (default: world) */
+  space?: 'world' | 'screen';
+  /** Apply the screen shake (default: true for world layers) */
+  shake?: boolean;
+  /** How far the layer moves with the camera: 1 = fully, 0.5 = distant background, 0 = fixed */
+  parallax?: number;
+  /** 0-1 */
+  opacity?: number;
+  blend?: GlobalCompositeOperation;
+  visible?: boolean;
+  /** Extra transform, after the camera */
+  transform?: Transform2D | null;
+}
+
+/**
+ * A layer and its current settings
+ */
+export interface RenderLayer extends Required<Omit<RenderLayerOptions, 'transform'>> {
+  readonly name: string;
+  transform: Transform2D | null;
+}
+
+/**
+ * Renderer options
+ */
+export interface RendererOptions {
+  /** Canvas size in logical pixels */
+  width: number;
+  height: number;
+  camera?: Camera | null;
+  /** Screen shake, e.g. useScreenShake().apply */
+  shake?: ((ctx: CanvasRenderingContext2D) => void) | null;
+  /** Layers to create (default: DEFAULT_RENDER_LAYERS) */
+  layers?: Record<string, RenderLayerOptions>;
+}
+
+/**
+ * Layered renderer
+ */
+export interface Renderer {
+  /** Layers in draw order */
+  readonly layers: RenderLayer[];
+  /** Get a layer, creating or updating it with the given settings */
+  layer: (name: string, options?: RenderLayerOptions) => RenderLayer;
+  /** Draw into a layer every frame until the returned function is called */
+  add: (layer: string, draw: LayerDraw, z?: number) => () => void;
+  /** Draw into a layer this frame only */
+  draw: (layer: string, draw: LayerDraw, z?: number) => void;
+  setCamera: (camera: Camera | null) => void;
+  setShake: (shake: ((ctx: CanvasRenderingContext2D) => void) | null) => void;
+  resize: (width: number, height: number) => void;
+  /** Draw every layer, then drop this frame's draws */
+  render: (ctx: CanvasRenderingContext2D) => void;
+}
+
+/**
+ * The template's layers: background, world, effects (all under the camera) and hud
+ */
+export const DEFAULT_RENDER_LAYERS: Record<string, RenderLayerOptions> = {
+  background: { z: 0 },
+  world: { z: 100 },
+  effects: { z: 200 },
+  hud: { z: 300, space: 'screen' },
+};
+
+interface LayerItem {
+  draw: LayerDraw;
+  z: number;
+  /** Insertion order, so equal z keeps drawing order (never reset, so it holds across frames) */
+  order: number;
+}
+
+/**
+ * Create a layered renderer
+ *
+ * Usage:
+ * ```
+ * const renderer = createRenderer({ width, height, camera, shake: shake.apply });
+ * renderer.layer('background', { parallax: 0.5 });
+ * renderer.layer('effects', { blend: 'lighter' });
+ * const remove = renderer.add('effects', particles.render);
+ *
+ * // In game loop
+ * renderer.draw('world', c => drawPlayer(c), player.y);   // z-sorted by y
+ * renderer.draw('hud', c => drawScore(c));
+ * clear();
+ * renderer.render(ctx);
+ * ```
+ */
+export function createRenderer(options: RendererOptions): Renderer {
+  let { width, height } = options;
+  let camera = options.camera ?? null;
+  let shake = options.shake ?? null;
+  const layers = new Map<string, RenderLayer>();
+  const persistent = new Map<string, LayerItem[]>();
+  const queued = new Map<string, LayerItem[]>();
+  let sorted: RenderLayer[] = [];
+  let order = 0;
+
+  const sortLayers = () => {
+    sorted = Array.from(layers.values()).sort((a, b) => a.z - b.z);
+  };
+
+  const layer = (name: string, settings: RenderLayerOptions = {}): RenderLayer => {
+    let current = layers.get(name);
+    if (!current) {
+      const space = settings.space ?? 'world';
+      current = {
+        name,
+        z: 0,
+        space,
+        shake: space === 'world',
+        parallax: 1,
+        opacity: 1,
+        blend: 'source-over',
+        visible: true,
+        transform: null,
+      };
+      layers.set(name, current);
+    }
+    Object.assign(current, settings);
+    if (settings.space && settings.shake === undefined) current.shake = settings.space === 'world';
+    sortLayers();
+    return current;
+  };
+
+  const itemsOf = (items: Map<string, LayerItem[]>, name: string) => {
+    if (!layers.has(name)) {
+      console.warn(`Unknown render layer "${name}"; creating it`);
+      layer(name);
+    }
+    let list = items.get(name);
+    if (!list) {
+      list = [];
+      items.set(name, list);
+    }
+    return list;
+  };
+
+  // Layer-space to canvas transform (camera with parallax, then the layer's own)
+  const layerTransform = (target: RenderLayer): Transform2D => {
+    let transform: Transform2D = { ...IDENTITY_TRANSFORM };
+    if (target.space === 'world' && camera) {
+      transform = { ...camera.transform };
+      if (target.parallax !== 1) {
+        // Parallax layers see the camera as if it had moved only part of the
+        // way from its resting place (the canvas centre)
+        const lag = 1 - target.parallax;
+        const dx = (camera.x - width / 2) * lag;
+        const dy = (camera.y - height / 2) * lag;
+        transform.e += transform.a * dx + transform.c * dy;
+        transform.f += transform.b * dx + transform.d * dy;
+      }
+    }
+    return target.transform ? multiplyTransform(transform, target.transform) : transform;
+  };
+
+  // Layer-space box covering the canvas
+  const visibleArea = (transform: Transform2D): Rect => {
+    const inverse = invertTransform(transform);
+    const corners = [
+      applyTransform(inverse, { x: 0, y: 0 }),
+      applyTransform(inverse, { x: width, y: 0 }),
+      applyTransform(inverse, { x: 0, y: height }),
+      applyTransform(inverse, { x: width, y: height }),
+    ];
+    const xs = corners.map(p => p.x);
+    const ys = corners.map(p => p.y);
+    const left = Math.min(...xs);
+    const top = Math.min(...ys);
+    return { x: left, y: top, width: Math.max(...xs) - left, height: Math.max(...ys) - top };
+  };
+
+  Object.entries(options.layers ?? DEFAULT_RENDER_LAYERS).forEach(([name, settings]) => layer(name, settings));
+
+  return {
+    get layers() {
+      return sorted;
+    },
+    layer,
+    add: (name, draw, z = 0) => {
+      const list = itemsOf(persistent, name);
+      const item = { draw, z, order: order++ };
+      list.push(item);
+      return () => {
+        const index = list.indexOf(item);
+        if (index !== -1) list.splice(index, 1);
+      };
+    },
+    draw: (name, draw, z = 0) => {
+      itemsOf(queued, name).push({ draw, z, order: order++ });
+    },
+    setCamera: next => {
+      camera = next;
+    },
+    setShake: next => {
+      shake = next;
+    },
+    resize: (nextWidth, nextHeight) => {
+      width = nextWidth;
+      height = nextHeight;
+    },
+
+    render: ctx => {
+      sorted.forEach(target => {
+        const items = [...(persistent.get(target.name) ?? []), ...(queued.get(target.name) ?? [])];
+        if (!target.visible || target.opacity <= 0 || items.length === 0) return;
+        items.sort((a, b) => a.z - b.z || a.order - b.order);
+
+        ctx.save();
+        ctx.globalAlpha *= target.opacity;
+        ctx.globalCompositeOperation = target.blend;
+        // Shake first, so it's in screen pixels at any zoom
+        if (target.shake && shake) shake(ctx);
+        const transform = layerTransform(target);
+        ctx.transform(transform.a, transform.b, transform.c, transform.d, transform.e, transform.f);
+        const visible = visibleArea(transform);
+
+        items.forEach(item => {
+          ctx.save();
+          item.draw(ctx, visible);
+          ctx.restore();
+        });
+        ctx.restore();
+      });
+
+      queued.clear();
+    },
+  };
+}
@@ -0,0 +1,362 @@
+import { getGameTick, isGameTickSkipped, onBeforeGameTick, onGameTick, skipGameTick } from './time';
+import { KeyboardStore, PointerStore, keyboardStore } from './inputStore';
+import { Random, randomSeed } from './random';
+
+/**
+ * Input recording and replay
+ *
+ * A recorder captures every keyboard and pointer change, stamped with the
+ * game-loop step it became visible in, plus the seed of the session's random
+ * stream. A player feeds the same changes back into the same stores before
+ * the same steps, so a fixed-step game driven only by that input and that
+ * random stream plays out exactly as recorded.
+ *
+ * Deterministic replays need:
+ * - a fixed-step loop (useGameLoop with `update`/`render`), using the step's
+ *   deltaTime rather than wall-clock time
+ * - randomness drawn from the recorder's/player's `rng` (or forks of it)
+ * - input read through useKeyboard, useMouse or useInputActions, with the
+ *   pointer store passed in (useMouse's, or `input.pointer`); gamepads aren't
+ *   recorded
+ */
+
+/**
+ * One recorded input change
+ * `t` is the step (counted from the start of the recording) it's visible in.
+ */
+export type ReplayEvent = ReplayKeyEvent | ReplayPointerEvent;
+
+export interface ReplayKeyEvent {
+  t: number;
+  key: string;
+  down: boolean;
+}
+
+export interface ReplayPointerEvent {
+  t: number;
+  /** Pointer id; -1 is the hovering mouse */
+  pointer: number;
+  action: 'down' | 'move' | 'up';
+  x: number;
+  y: number;
+  type?: string;
+  /** Mouse button of a 'down' (0 when missing) */
+  button?: number;
+}
+
+/**
+ * Serialisable recording of a session
+ */
+export interface Replay {
+  version: 1;
+  /** Seed of the session's random stream */
+  seed: number;
+  /** Number of steps recorded */
+  ticks: number;
+  /** Steps that were skipped (pauses and resumes) */
+  skips: number[];
+  events: ReplayEvent[];
+  /** Anything the game wants to keep with it (score, level, date) */
+  meta?: Record<string, unknown>;
+}
+
+/**
+ * Devices a recorder or player works with
+ */
+export interface ReplayDevices {
+  /** Keyboard to record/drive (default: the shared keyboard) */
+  keyboard?: KeyboardStore;
+  /** Pointer store from useMouse, if the game uses one */
+  pointer?: PointerStore;
+}
+
+/**
+ * Records input while running
+ */
+export interface ReplayRecorder {
+  readonly recording: boolean;
+  readonly seed: number;
+  /** The session's seeded generator, reseeded by start() */
+  readonly rng: Random;
+  /** Start recording (new seed unless one is given); returns the seed */
+  start: (seed?: number) => number;
+  /** Stop and return the recording */
+  stop: (meta?: Record<string, unknown>) => Replay;
+}
+
+/**
+ * Plays a replay back into the input stores
+ */
+export interface ReplayPlayer {
+  readonly playing: boolean;
+  readonly replay: Replay;
+  /** Steps played so far */
+  readonly tick: number;
+  /** 0-1 */
+  readonly progress: number;
+  /** Generator seeded like the recording's, reseeded by start() */
+  readonly rng: Random;
+  /** Start feeding input before the next step; live devices are blocked until it ends */
+  start: () => void;
+  /** Stop early (onEnd is not called) */
+  stop: () => void;
+}
+
+/**
+ * Create an input recorder
+ *
+ * Usage:
+ * ```
+ * const recorder = createReplayRecorder({ pointer: mouse });
+ * recorder.start();                       // when the run starts
+ * spawn(recorder.rng.range(0, width));   // all gameplay randomness
+ * const replay = recorder.stop({ score }); // when it ends
+ * ```
+ */
+export function createReplayRecorder(devices: ReplayDevices = {}): ReplayRecorder {
+  const { keyboard = keyboardStore, pointer } = devices;
+  let recording = false;
+  const rng = new Random();
+  let startTick = 0;
+  let events: ReplayEvent[] = [];
+  let skips: number[] = [];
+  let cleanup: (() => void) | null = null;
+
+  // Step an input change made now becomes visible in
+  const visibleAt = () => getGameTick() + 1 - startTick;
+
+  const watchKeyboard = () => {
+    let held = new Set(keyboard.keys);
+    return keyboard.subscribe(() => {
+      const t = visibleAt();
+      const now = new Set(keyboard.keys);
+      held.forEach(key => {
+        if (!now.has(key)) events.push({ t, key, down: false });
+      });
+      now.forEach(key => {
+        if (!held.has(key)) events.push({ t, key, down: true });
+      });
+      held = now;
+    });
+  };
+
+  const watchPointer = (store: PointerStore) => {
+    let down = new Map(Array.from(store.pointers.values()).map(p => [p.id, p.position]));
+    let hover = store.position;
+    return store.subscribe(() => {
+      const t = visibleAt();
+      const push = (event: ReplayPointerEvent) => {
+        // Only the last move of a pointer within a step matters
+        const last = events[events.length - 1];
+        if (event.action === 'move' && last && 'pointer' in last && last.t === t && last.pointer === event.pointer && last.action === 'move') {
+          events[events.length - 1] = event;
+        } else {
+          events.push(event);
+        }
+      };
+
+      const now = new Map(Array.from(store.pointers.values()).map(p => [p.id, p.position]));
+      down.forEach((position, id) => {
+        if (!now.has(id)) push({ t, pointer: id, action: 'up', x: position.x, y: position.y });
+      });
+      store.pointers.forEach(p => {
+        const before = down.get(p.id);
+        if (!before) {
+          push({ t, pointer: p.id, action: 'down', x: p.position.x, y: p.position.y, type: p.type, ...(p.button ? { button: p.button } : {}) });
+        } else if (before !== p.position) {
+          push({ t, pointer: p.id, action: 'move', x: p.position.x, y: p.position.y });
+        }
+      });
+      if (now.size === 0 && store.position !== hover) {
+        push({ t, pointer: -1, action: 'move', x: store.position.x, y: store.position.y });
+      }
+      down = now;
+      hover = store.position;
+    });
+  };
+
+  return {
+    get recording() {
+      return recording;
+    },
+    get seed() {
+      return rng.seed;
+    },
+    get rng() {
+      return rng;
+    },
+
+    start: (fixedSeed = randomSeed()) => {
+      cleanup?.();
+      recording = true;
+      rng.reseed(fixedSeed);
+      startTick = getGameTick();
+      events = [];
+      skips = [];
+
+      // Input held when recording starts is pressed at step 1
+      Array.from(keyboard.keys).forEach(key => events.push({ t: 1, key, down: true }));
+      if (pointer) {
+        pointer.pointers.forEach(p => events.push({ t: 1, pointer: p.id, action: 'down', x: p.position.x, y: p.position.y, type: p.type, ...(p.button ? { button: p.button } : {}) }));
+        if (pointer.pointers.size === 0) events.push({ t: 1, pointer: -1, action: 'move', x: pointer.position.x, y: pointer.position.y });
+      }
+
+      const unsubscribers = [
+        watchKeyboard(),
+        pointer ? watchPointer(pointer) : () => {},
+        onGameTick(() => {
+          if (isGameTickSkipped()) skips.push(getGameTick() - startTick);
+        }),
+      ];
+      cleanup = () => unsubscribers.forEach(unsubscribe => unsubscribe());
+      return rng.seed;
+    },
+
+    stop: meta => {
+      cleanup?.();
+      cleanup = null;
+      recording = false;
+      const ticks = getGameTick() - startTick;
+      return {
+        version: 1,
+        seed: rng.seed,
+        ticks,
+        skips: [...skips],
+        // Changes after the last step were never seen by the game
+        events: events.filter(e => e.t <= ticks),
+        ...(meta ? { meta } : {}),
+      };
+    },
+  };
+}
+
+/**
+ * Create a replay player
+ *
+ * Usage:
+ * ```
+ * const player = createReplayPlayer(replay, { pointer: mouse }, () => end());
+ * player.start();                         // then start the run as usual
+ * spawn(player.rng.range(0, width));     // same stream as the recording
+ * ```
+ */
+export function createReplayPlayer(
+  replay: Replay,
+  devices: ReplayDevices = {},
+  onEnd?: () => void
+): ReplayPlayer {
+  const { keyboard = keyboardStore, pointer } = devices;
+  const skips = new Set(replay.skips);
+  let playing = false;
+  let tick = 0;
+  let next = 0;
+  const rng = new Random(replay.seed);
+  let cleanup: (() => void) | null = null;
+
+  const apply = (event: ReplayEvent) => {
+    if ('key' in event) {
+      if (event.down) keyboard.press(event.key);
+      else keyboard.release(event.key);
+      return;
+    }
+    if (!pointer) return;
+    const position = { x: event.x, y: event.y };
+    if (event.action === 'down') pointer.press(event.pointer, position, event.type, event.button);
+    else if (event.action === 'move') pointer.move(event.pointer, position);
+    else pointer.release(event.pointer, position);
+  };
+
+  const finish = () => {
+    cleanup?.();
+    cleanup = null;
+    playing = false;
+    keyboard.releaseAll();
+    pointer?.pointers.forEach(p => pointer.cancel(p.id));
+  };
+
+  const player: ReplayPlayer = {
+    get playing() {
+      return playing;
+    },
+    get replay() {
+      return replay;
+    },
+    get tick() {
+      return tick;
+    },
+    get progress() {
+      return replay.ticks > 0 ? Math.min(1, tick / replay.ticks) : 1;
+    },
+    get rng() {
+      return rng;
+    },
+
+    start: () => {
+      cleanup?.();
+      playing = true;
+      tick = 0;
+      next = 0;
+      rng.reseed(replay.seed);
+
+      const unblockKeyboard = keyboard.block();
+      const unblockPointer = pointer?.block();
+      const stopFeeding = onBeforeGameTick(skipping => {
+        if (tick >= replay.ticks) {
+          finish();
+          onEnd?.();
+          return;
+        }
+        // A live pause mid-replay adds a step the recording doesn't have
+        if (skipping && !skips.has(tick + 1)) return;
+
+        tick++;
+        while (next < replay.events.length && replay.events[next].t <= tick) {
+          apply(replay.events[next++]);
+        }
+        if (skips.has(tick)) skipGameTick();
+      });
+
+      cleanup = () => {
+        stopFeeding();
+        unblockKeyboard();
+        unblockPointer?.();
+      };
+    },
+
+    stop: finish,
+  };
+
+  return player;
+}
+
+/**
+ * Check that parsed JSON looks like a replay
+ */
+export function isReplay(data: unknown): data is Replay {
+  if (!data || typeof data !== 'object') return false;
+  const replay = data as Partial<Replay>;
+  return replay.version === 1
+    && typeof replay.seed === 'number'
+    && typeof replay.ticks === 'number'
+    && Array.isArray(replay.skips)
+    && Array.isArray(replay.events);
+}
+
+/**
+ * Serialise a replay (e.g. to attach to a bug report)
+ */
+export function serializeReplay(replay: Replay): string {
+  return JSON.stringify(replay);
+}
+
+/**
+ * Parse a serialised replay; null if it isn't one
+ */
+export function parseReplay(text: string): Replay | null {
+  try {
+    const data: unknown = JSON.parse(text);
+    return isReplay(data) ? data : null;
+  } catch {
+    return null;
+  }
+}
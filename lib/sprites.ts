@@ -0,0 +1,439 @@
+import { Vector2D } from './types';
+
+/**
+ * Sprites, sprite sheets and animation
+ *
+ * A sprite sheet is one image plus named frames (rectangles in it), built
+ * either from a regular grid or from a texture-atlas JSON (TexturePacker /
+ * Aseprite "hash" and "array" formats). drawSprite draws one frame with
+ * flip, rotation, scale and tint; an animator steps through frames of named
+ * clips with the game loop's deltaTime.
+ */
+
+/**
+ * One frame of a sprite sheet
+ */
+export interface SpriteFrame {
+  /** Source rectangle in the image */
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  /** Untrimmed size; trimmed frames are drawn offset inside it */
+  sourceWidth: number;
+  sourceHeight: number;
+  /** Offset of the source rectangle inside the untrimmed frame */
+  offsetX: number;
+  offsetY: number;
+  /** Default anchor (0-1 of the untrimmed frame), if the atlas defines one */
+  pivot?: Vector2D;
+}
+
+/**
+ * An image and its frames
+ */
+export interface SpriteSheet {
+  image: CanvasImageSource;
+  /** Frames by name; grid sheets name them '0', '1', ... in reading order */
+  frames: Record<string, SpriteFrame>;
+  /** Frame names in order */
+  names: string[];
+}
+
+/**
+ * Layout of a grid sprite sheet
+ */
+export interface GridLayout {
+  frameWidth: number;
+  frameHeight: number;
+  /** Pixels around the whole grid */
+  margin?: number;
+  /** Pixels between frames */
+  spacing?: number;
+  /** Number of frames (default: every full cell) */
+  count?: number;
+  /** Names for frames in order (default: their index) */
+  names?: string[];
+}
+
+/**
+ * Texture atlas JSON (TexturePacker / Aseprite, hash or array of frames)
+ */
+export interface AtlasData {
+  frames: Record<string, AtlasFrame> | (AtlasFrame & { filename: string })[];
+  meta?: { image?: string };
+}
+
+export interface AtlasFrame {
+  frame: { x: number; y: number; w: number; h: number };
+  rotated?: boolean;
+  trimmed?: boolean;
+  spriteSourceSize?: { x: number; y: number; w: number; h: number };
+  sourceSize?: { w: number; h: number };
+  pivot?: { x: number; y: number };
+  /** Aseprite frame duration in ms */
+  duration?: number;
+}
+
+/**
+ * Options for drawSprite
+ */
+export interface DrawSpriteOptions {
+  /** Uniform scale (default 1) */
+  scale?: number;
+  scaleX?: number;
+  scaleY?: number;
+  /** Radians, around the anchor */
+  rotation?: number;
+  flipX?: boolean;
+  flipY?: boolean;
+  /** Point of the frame placed at (x, y), 0-1 (default: the frame's pivot, else centre) */
+  anchor?: Vector2D;
+  /** 0-1 */
+  alpha?: number;
+  /** Colour blended over the sprite's opaque pixels */
+  tint?: string;
+  /** Tint strength 0-1 (default 1) */
+  tintAmount?: number;
+}
+
+/**
+ * Load an image
+ * Resolves once it's decoded, rejects if it fails to load.
+ */
+export function loadImage(src: string): Promise<HTMLImageElement> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => {
+      // decode() avoids a hitch on first draw where supported
+      if (image.decode) image.decode().then(() => resolve(image), () => resolve(image));
+      else resolve(image);
+    };
+    image.onerror = () => reject(new Error(`Failed to load image: ${src}`));
+    image.src = src;
+  });
+}
+
+function imageSize(image: CanvasImageSource): { width: number; height: number } {
+  if (typeof HTMLImageElement !== 'undefined' && image instanceof HTMLImageElement) {
+    return { width: image.naturalWidth, height: image.naturalHeight };
+  }
+  const sized = image as { width: number | SVGAnimatedLength; height: number | SVGAnimatedLength };
+  const value = (size: number | SVGAnimatedLength) => (typeof size === 'number' ? size : size.baseVal.value);
+  return { width: value(sized.width), height: value(sized.height) };
+}
+
+function plainFrame(x: number, y: number, width: number, height: number): SpriteFrame {
+  return { x, y, width, height, sourceWidth: width, sourceHeight: height, offsetX: 0, offsetY: 0 };
+}
+
+/**
+ * A whole image as a single-frame sheet (frame '0')
+ */
+export function createSprite(image: CanvasImageSource): SpriteSheet {
+  const { width, height } = imageSize(image);
+  return { image, frames: { 0: plainFrame(0, 0, width, height) }, names: ['0'] };
+}
+
+/**
+ * Sprite sheet from a grid of equally sized frames
+ *
+ * Usage:
+ * ```
+ * const hero = createGridSheet(image, { frameWidth: 32, frameHeight: 32 });
+ * drawSprite(ctx, hero, 4, x, y);
+ * ```
+ */
+export function createGridSheet(image: CanvasImageSource, layout: GridLayout): SpriteSheet {
+  const { frameWidth, frameHeight, margin = 0, spacing = 0 } = layout;
+  const { width, height } = imageSize(image);
+  const columns = Math.max(0, Math.floor((width - margin * 2 + spacing) / (frameWidth + spacing)));
+  const rows = Math.max(0, Math.floor((height - margin * 2 + spacing) / (frameHeight + spacing)));
+  const count = Math.min(layout.count ?? columns * rows, columns * rows);
+
+  const frames: Record<string, SpriteFrame> = {};
+  const names: string[] = [];
+  for (let i = 0; i < count; i++) {
+    const name = layout.names?.[i] ?? String(i);
+    const column = i % columns;
+    const row = Math.floor(i / columns);
+    frames[name] = plainFrame(
+      margin + column * (frameWidth + spacing),
+      margin + row * (frameHeight + spacing),
+      frameWidth,
+      frameHeight
+    );
+    names.push(name);
+  }
+  return { image, frames, names };
+}
+
+/**
+ * Sprite sheet from texture-atlas JSON
+ * Rotated frames aren't supported - export atlases without rotation.
+ *
+ * Usage:
+ * ```
+ * const atlas = createAtlas(image, await (await fetch('/assets/hero.json')).json());
+ * drawSprite(ctx, atlas, 'run_01.png', x, y);
+ * ```
+ */
+export function createAtlas(image: CanvasImageSource, data: AtlasData): SpriteSheet {
+  const entries: [string, AtlasFrame][] = Array.isArray(data.frames)
+    ? data.frames.map(frame => [frame.filename, frame])
+    : Object.keys(data.frames).map(name => [name, (data.frames as Record<string, AtlasFrame>)[name]]);
+
+  const frames: Record<string, SpriteFrame> = {};
+  const names: string[] = [];
+  entries.forEach(([name, entry]) => {
+    if (entry.rotated) {
+      console.warn(`Atlas frame "${name}" is rotated; rotated frames aren't supported`);
+    }
+    const { x, y, w, h } = entry.frame;
+    const trim = entry.spriteSourceSize ?? { x: 0, y: 0, w, h };
+    const source = entry.sourceSize ?? { w, h };
+    frames[name] = {
+      x,
+      y,
+      width: w,
+      height: h,
+      sourceWidth: source.w,
+      sourceHeight: source.h,
+      offsetX: trim.x,
+      offsetY: trim.y,
+      ...(entry.pivot ? { pivot: { x: entry.pivot.x, y: entry.pivot.y } } : {}),
+    };
+    names.push(name);
+  });
+  return { image, frames, names };
+}
+
+/**
+ * Frame names of a sheet that start with a prefix, in order
+ * e.g. framesWithPrefix(atlas, 'run_') for an atlas clip
+ */
+export function framesWithPrefix(sheet: SpriteSheet, prefix: string): string[] {
+  return sheet.names.filter(name => name.startsWith(prefix));
+}
+
+// Tinted copies of frames, per image
+const tintCache = new WeakMap<object, Map<string, HTMLCanvasElement>>();
+
+function tintedFrame(sheet: SpriteSheet, frame: SpriteFrame, color: string, amount: number): HTMLCanvasElement | null {
+  if (typeof document === 'undefined') return null;
+  let cache = tintCache.get(sheet.image);
+  if (!cache) {
+    cache = new Map();
+    tintCache.set(sheet.image, cache);
+  }
+  const key = `${frame.x},${frame.y},${frame.width},${frame.height}|${color}|${amount}`;
+  const cached = cache.get(key);
+  if (cached) return cached;
+
+  const canvas = document.createElement('canvas');
+  canvas.width = frame.width;
+  canvas.height = frame.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(sheet.image, frame.x, frame.y, frame.width, frame.height, 0, 0, frame.width, frame.height);
+  // Colour only where the sprite is opaque
+  ctx.globalCompositeOperation = 'source-atop';
+  ctx.globalAlpha = amount;
+  ctx.fillStyle = color;
+  ctx.fillRect(0, 0, frame.width, frame.height);
+  cache.set(key, canvas);
+  return canvas;
+}
+
+/**
+ * Draw one frame of a sprite sheet at (x, y)
+ *
+ * Usage:
+ * ```
+ * drawSprite(ctx, hero, animator.frame, player.x, player.y, {
+ *   flipX: player.facing < 0,
+ *   scale: 2,
+ *   tint: hurt ? '#ff0000' : undefined,
+ * });
+ * ```
+ */
+export function drawSprite(
+  ctx: CanvasRenderingContext2D,
+  sheet: SpriteSheet,
+  frameName: string | number,
+  x: number,
+  y: number,
+  options: DrawSpriteOptions = {}
+): void {
+  const frame = sheet.frames[frameName];
+  if (!frame) return;
+  const {
+    scale = 1,
+    scaleX = scale,
+    scaleY = scale,
+    rotation = 0,
+    flipX = false,
+    flipY = false,
+    anchor = frame.pivot ?? { x: 0.5, y: 0.5 },
+    alpha = 1,
+    tint,
+    tintAmount = 1,
+  } = options;
+
+  const source = tint ? tintedFrame(sheet, frame, tint, tintAmount) : null;
+
+  ctx.save();
+  ctx.translate(x, y);
+  if (rotation) ctx.rotate(rotation);
+  ctx.scale(flipX ? -scaleX : scaleX, flipY ? -scaleY : scaleY);
+  if (alpha !== 1) ctx.globalAlpha *= alpha;
+
+  const left = frame.offsetX - anchor.x * frame.sourceWidth;
+  const top = frame.offsetY - anchor.y * frame.sourceHeight;
+  if (source) {
+    ctx.drawImage(source, left, top, frame.width, frame.height);
+  } else {
+    ctx.drawImage(sheet.image, frame.x, frame.y, frame.width, frame.height, left, top, frame.width, frame.height);
+  }
+  ctx.restore();
+}
+
+/**
+ * How a clip continues after its last frame
+ */
+export type AnimationLoop = 'loop' | 'once' | 'pingpong';
+
+/**
+ * A named sequence of frames
+ */
+export interface AnimationClip {
+  /** Frame names (or grid indices) in order */
+  frames: (string | number)[];
+  /** Frames per second (default 10) */
+  fps?: number;
+  /** Per-frame durations in ms, overriding fps (e.g. from Aseprite) */
+  durations?: number[];
+  /** Default 'loop' */
+  loop?: AnimationLoop;
+  /** Clip to switch to when a 'once' clip finishes */
+  next?: string;
+}
+
+/**
+ * Plays clips of a sprite sheet
+ */
+export interface Animator {
+  /** Current clip name */
+  readonly state: string;
+  /** Current frame name - pass to drawSprite */
+  readonly frame: string | number;
+  /** Index into the clip's frames */
+  readonly frameIndex: number;
+  /** Whether a 'once' clip has reached its end */
+  readonly finished: boolean;
+  /** Playback speed multiplier (1 = normal, 0 = frozen, negative isn't supported) */
+  speed: number;
+  /** Switch clip; keeps playing if it's already the current one unless restart is set */
+  play: (state: string, options?: { restart?: boolean; speed?: number }) => void;
+  /** Advance by deltaTime ms (call in the game loop) */
+  update: (deltaTime: number) => void;
+  /** Called when a 'once' clip finishes */
+  onEnd: ((state: string) => void) | null;
+}
+
+/**
+ * Create an animator for named clips
+ *
+ * Usage:
+ * ```
+ * const animator = createAnimator({
+ *   idle: { frames: [0, 1, 2, 3], fps: 6 },
+ *   run: { frames: framesWithPrefix(atlas, 'run_'), fps: 12 },
+ *   attack: { frames: [8, 9, 10], fps: 15, loop: 'once', next: 'idle' },
+ * }, 'idle');
+ *
+ * // In game loop
+ * animator.play(Math.abs(vx) > 0 ? 'run' : 'idle');
+ * animator.update(deltaTime);
+ * drawSprite(ctx, hero, animator.frame, x, y);
+ * ```
+ */
+export function createAnimator(clips: Record<string, AnimationClip>, initial: string): Animator {
+  let state = initial;
+  let index = 0;
+  let direction = 1;
+  let elapsed = 0;
+  let finished = false;
+
+  const clipOf = (name: string): AnimationClip | undefined => {
+    const clip = clips[name];
+    if (!clip) console.warn(`Unknown animation clip: ${name}`);
+    return clip;
+  };
+
+  const frameDuration = (clip: AnimationClip, i: number) =>
+    clip.durations?.[i] ?? 1000 / (clip.fps ?? 10);
+
+  const animator: Animator = {
+    get state() {
+      return state;
+    },
+    get frame() {
+      const clip = clips[state];
+      return clip?.frames[index] ?? 0;
+    },
+    get frameIndex() {
+      return index;
+    },
+    get finished() {
+      return finished;
+    },
+    speed: 1,
+    onEnd: null,
+
+    play: (next, options = {}) => {
+      if (options.speed !== undefined) animator.speed = options.speed;
+      if (next === state && !options.restart) return;
+      if (!clipOf(next)) return;
+      state = next;
+      index = 0;
+      direction = 1;
+      elapsed = 0;
+      finished = false;
+    },
+
+    update: deltaTime => {
+      const clip = clips[state];
+      if (!clip || finished || clip.frames.length === 0) return;
+      elapsed += deltaTime * Math.max(0, animator.speed);
+
+      // Step as many frames as the time covers (long frames or slow devices)
+      let duration = frameDuration(clip, index);
+      while (elapsed >= duration && duration > 0) {
+        elapsed -= duration;
+        const last = clip.frames.length - 1;
+        const loop = clip.loop ?? 'loop';
+
+        if (loop === 'pingpong' && last > 0) {
+          if (index + direction > last || index + direction < 0) direction = -direction;
+          index += direction;
+        } else if (index < last) {
+          index++;
+        } else if (loop !== 'once') {
+          index = 0;
+        } else {
+          finished = true;
+          elapsed = 0;
+          animator.onEnd?.(state);
+          // onEnd may have started another clip
+          if (finished && clip.next) animator.play(clip.next);
+          return;
+        }
+        duration = frameDuration(clip, index);
+      }
+    },
+  };
+
+  clipOf(initial);
+  return animator;
+}
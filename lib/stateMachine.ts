@@ -0,0 +1,124 @@
+/**
+ * Declarative finite state machine
+ *
+ * States are plain strings; transitions list which moves are legal and may
+ * carry guards. Anything not listed is rejected.
+ *
+ * Usage:
+ * ```
+ * const machine = createStateMachine({
+ *   initial: 'idle',
+ *   states: {
+ *     countdown: { onEnter: () => startTimer() },
+ *   },
+ *   transitions: [
+ *     { from: 'idle', to: 'countdown' },
+ *     { from: 'countdown', to: 'playing' },
+ *     { from: '*', to: 'idle' },
+ *   ],
+ * });
+ *
+ * machine.transition('countdown'); // true
+ * machine.transition('countdown'); // false - no countdown -> countdown
+ * ```
+ */
+
+export type StateId = string;
+
+/**
+ * Per-state hooks
+ */
+export interface StateDefinition {
+  /** Return false to refuse entry (checked after transition guards) */
+  canEnter?: (from: StateId, payload?: unknown) => boolean;
+  /** Called after the state has been entered */
+  onEnter?: (from: StateId, payload?: unknown) => void;
+  /** Called before the state is left */
+  onExit?: (to: StateId, payload?: unknown) => void;
+}
+
+/**
+ * An allowed move between states
+ */
+export interface TransitionDefinition {
+  /** Source state(s); '*' matches any state */
+  from: StateId | StateId[];
+  /** Target state */
+  to: StateId;
+  /** Return false to reject this transition */
+  guard?: (from: StateId, to: StateId, payload?: unknown) => boolean;
+}
+
+/**
+ * State machine configuration
+ * The machine reads `states` and `transitions` on every call, so they can be
+ * swapped in place to pick up new hooks without losing the current state.
+ */
+export interface StateMachineConfig {
+  initial: StateId;
+  states?: Record<StateId, StateDefinition>;
+  transitions: TransitionDefinition[];
+}
+
+/**
+ * State machine instance
+ */
+export interface StateMachine {
+  /** Current state */
+  readonly current: StateId;
+  /** Whether a transition to `to` is currently allowed */
+  can: (to: StateId, payload?: unknown) => boolean;
+  /** Move to `to`; returns false (and changes nothing) if not allowed */
+  transition: (to: StateId, payload?: unknown) => boolean;
+  /** Listen for state changes; returns an unsubscribe function */
+  subscribe: (listener: (to: StateId, from: StateId) => void) => () => void;
+}
+
+/** Check whether a transition definition covers a move */
+function matches(definition: TransitionDefinition, from: StateId, to: StateId): boolean {
+  if (definition.to !== to) return false;
+  const sources = Array.isArray(definition.from) ? definition.from : [definition.from];
+  return sources.includes('*') || sources.includes(from);
+}
+
+/**
+ * Create a state machine
+ */
+export function createStateMachine(config: StateMachineConfig): StateMachine {
+  let current = config.initial;
+  const listeners = new Set<(to: StateId, from: StateId) => void>();
+
+  const can = (to: StateId, payload?: unknown) => {
+    const allowed = config.transitions.some(t =>
+      matches(t, current, to) && (t.guard?.(current, to, payload) ?? true)
+    );
+    if (!allowed) return false;
+    return config.states?.[to]?.canEnter?.(current, payload) ?? true;
+  };
+
+  return {
+    get current() {
+      return current;
+    },
+
+    can,
+
+    transition(to, payload) {
+      if (!can(to, payload)) return false;
+
+      const from = current;
+      config.states?.[from]?.onExit?.(to, payload);
+      current = to;
+      config.states?.[to]?.onEnter?.(from, payload);
+      listeners.forEach(listener => listener(to, from));
+      return true;
+    },
+
+    subscribe(listener) {
+      listeners.add(listener);
+      return () => {
+        listeners.delete(listener);
+      };
+    },
+  };
+}
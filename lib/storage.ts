@@ -0,0 +1,267 @@
+import metadata from '../metadata.json';
+
+/**
+ * Save-game storage
+ *
+ * Every key is namespaced by the game id from metadata.json, so games served
+ * from the same origin can't overwrite each other. Each slot has a schema
+ * version; older saves are upgraded with migration functions, unreadable ones
+ * are backed up and replaced with defaults. When localStorage is unavailable
+ * (sandboxed iframes, privacy modes) saves live in memory for the session.
+ */
+
+/** The template's own id - every game made from the template starts with it */
+export const TEMPLATE_GAME_ID = 'fishtank-game';
+
+/** Game id used to namespace storage keys */
+export const GAME_ID: string = (metadata as { id?: string }).id || TEMPLATE_GAME_ID;
+
+/**
+ * Upgrades one version's data to the next (parameter typed as the old shape;
+ * `validate` checks the final result)
+ */
+export type SlotMigration = (data: never) => unknown;
+
+/**
+ * A typed save slot
+ */
+export interface SaveSlot<T> {
+  /** Key within the game's namespace */
+  key: string;
+  /** Current schema version (start at 1, bump when the shape changes) */
+  version: number;
+  /** Fresh default data */
+  defaults: () => T;
+  /**
+   * Upgrade functions keyed by the version they produce, each taking the
+   * previous version's data, e.g. { 2: (v1: SettingsV1) => v2, 3: (v2: SettingsV2) => v3 }
+   */
+  migrations?: Record<number, SlotMigration>;
+  /** Reject loaded data that doesn't match the schema */
+  validate?: (data: unknown) => boolean;
+  /**
+   * Un-namespaced key from an older build, imported once
+   * Only for keys this game alone wrote - a shared key would import another game's data
+   */
+  legacy?: {
+    key: string;
+    parse: (raw: string) => T | undefined;
+  };
+}
+
+/**
+ * Stored envelope around slot data
+ */
+interface SaveEnvelope {
+  version: number;
+  savedAt: number;
+  data: unknown;
+}
+
+/**
+ * Minimal storage backend (localStorage or in-memory)
+ */
+interface StorageBackend {
+  getItem: (key: string) => string | null;
+  setItem: (key: string, value: string) => void;
+  removeItem: (key: string) => void;
+  keys: () => string[];
+}
+
+/**
+ * Save storage for one game
+ */
+export interface SaveStorage {
+  /** Game id keys are namespaced under */
+  readonly gameId: string;
+  /** False when saves only last for this session (in-memory fallback) */
+  readonly persistent: boolean;
+  /** Load a slot (migrated, validated, defaults when missing or corrupt) */
+  load: <T>(slot: SaveSlot<T>) => T;
+  /** Save a slot */
+  save: <T>(slot: SaveSlot<T>, data: T) => void;
+  /** Delete a slot */
+  remove: <T>(slot: SaveSlot<T>) => void;
+  /** Delete every key belonging to this game */
+  clear: () => void;
+}
+
+/**
+ * Define a save slot (identity helper for type inference)
+ */
+export function defineSlot<T>(slot: SaveSlot<T>): SaveSlot<T> {
+  return slot;
+}
+
+/** In-memory backend */
+function createMemoryBackend(): StorageBackend {
+  const items = new Map<string, string>();
+  return {
+    getItem: key => items.get(key) ?? null,
+    setItem: (key, value) => {
+      items.set(key, value);
+    },
+    removeItem: key => {
+      items.delete(key);
+    },
+    keys: () => Array.from(items.keys()),
+  };
+}
+
+/** localStorage backend, or null if it can't be used */
+function createLocalBackend(): StorageBackend | null {
+  try {
+    if (typeof window === 'undefined') return null;
+    // Accessing localStorage throws in sandboxed iframes; writing can throw in private modes
+    const storage = window.localStorage;
+    const probe = '__fishtank_probe__';
+    storage.setItem(probe, probe);
+    storage.removeItem(probe);
+
+    return {
+      getItem: key => storage.getItem(key),
+      setItem: (key, value) => storage.setItem(key, value),
+      removeItem: key => storage.removeItem(key),
+      keys: () => Array.from({ length: storage.length }, (_, i) => storage.key(i) ?? ''),
+    };
+  } catch {
+    return null;
+  }
+}
+
+/** Run migrations from `from` up to the slot's current version */
+function migrate<T>(slot: SaveSlot<T>, data: unknown, from: number): unknown {
+  let migrated = data;
+  for (let version = from + 1; version <= slot.version; version++) {
+    const step = slot.migrations?.[version];
+    if (!step) throw new Error(`No migration to version ${version}`);
+    migrated = (step as (data: unknown) => unknown)(migrated);
+  }
+  return migrated;
+}
+
+/**
+ * Create storage for a game
+ */
+export function createSaveStorage(gameId: string = GAME_ID): SaveStorage {
+  let backend: StorageBackend | null = null;
+  let persistent = false;
+  const prefix = `fishtank:${gameId}:`;
+
+  // Resolved lazily so module import is safe during server rendering
+  const getBackend = () => {
+    if (!backend) {
+      if (gameId === TEMPLATE_GAME_ID && process.env.NODE_ENV !== 'production') {
+        console.warn(
+          `Saves use the template's game id "${TEMPLATE_GAME_ID}", shared by every game made from it; ` +
+          'set a unique "id" in metadata.json'
+        );
+      }
+      const local = createLocalBackend();
+      persistent = !!local;
+      backend = local ?? createMemoryBackend();
+    }
+    return backend;
+  };
+
+  const write = (key: string, value: string) => {
+    try {
+      getBackend().setItem(key, value);
+    } catch (error) {
+      // Quota exceeded or storage revoked - keep playing from memory
+      console.warn(`Save failed for "${key}", falling back to memory`, error);
+      const memory = createMemoryBackend();
+      const previous = getBackend();
+      previous.keys().filter(k => k.startsWith(prefix)).forEach(k => {
+        const item = previous.getItem(k);
+        if (item !== null) memory.setItem(k, item);
+      });
+      backend = memory;
+      persistent = false;
+      memory.setItem(key, value);
+    }
+  };
+
+  const save = <T>(slot: SaveSlot<T>, data: T) => {
+    const envelope: SaveEnvelope = { version: slot.version, savedAt: Date.now(), data };
+    write(prefix + slot.key, JSON.stringify(envelope));
+  };
+
+  const recover = <T>(slot: SaveSlot<T>, raw: string, reason: string): T => {
+    console.warn(`Save "${slot.key}" is unreadable (${reason}); restoring defaults`);
+    write(`${prefix}${slot.key}:corrupt`, raw);
+    const defaults = slot.defaults();
+    save(slot, defaults);
+    return defaults;
+  };
+
+  const load = <T>(slot: SaveSlot<T>): T => {
+    const store = getBackend();
+    const key = prefix + slot.key;
+    const raw = store.getItem(key);
+
+    if (raw === null) {
+      const legacyRaw = slot.legacy ? store.getItem(slot.legacy.key) : null;
+      const imported = legacyRaw !== null ? slot.legacy?.parse(legacyRaw) : undefined;
+      if (imported !== undefined && (slot.validate?.(imported) ?? true)) {
+        save(slot, imported);
+        return imported;
+      }
+      return slot.defaults();
+    }
+
+    let envelope: SaveEnvelope;
+    try {
+      envelope = JSON.parse(raw);
+      if (!envelope || typeof envelope !== 'object' || typeof envelope.version !== 'number') {
+        throw new Error('missing version');
+      }
+    } catch (error) {
+      return recover(slot, raw, error instanceof Error ? error.message : 'invalid JSON');
+    }
+
+    if (envelope.version > slot.version) {
+      // Saved by a newer build - leave it untouched in case the player goes back
+      console.warn(`Save "${slot.key}" is from a newer version (${envelope.version}); using defaults`);
+      return slot.defaults();
+    }
+
+    let data = envelope.data;
+    if (envelope.version < slot.version) {
+      try {
+        data = migrate(slot, data, envelope.version);
+      } catch (error) {
+        return recover(slot, raw, error instanceof Error ? error.message : 'migration failed');
+      }
+    }
+
+    if (!(slot.validate?.(data) ?? true)) {
+      return recover(slot, raw, 'failed validation');
+    }
+
+    if (envelope.version < slot.version) save(slot, data as T);
+    return data as T;
+  };
+
+  return {
+    gameId,
+    get persistent() {
+      getBackend();
+      return persistent;
+    },
+    load,
+    save,
+    remove: slot => {
+      getBackend().removeItem(prefix + slot.key);
+    },
+    clear: () => {
+      const store = getBackend();
+      store.keys().filter(k => k.startsWith(prefix)).forEach(k => store.removeItem(k));
+    },
+  };
+}
+
+/**
+ * Shared storage for this game
+ */
+export const saveStorage = createSaveStorage();
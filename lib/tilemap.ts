@@ -0,0 +1,666 @@
+import { Entity, Rect, Vector2D } from './types';
+import { SpriteSheet, drawSprite } from './sprites';
+
+/**
+ * Tile maps
+ *
+ * A tilemap is a grid of tile ids in one or more layers. Id 0 is empty;
+ * other ids ("gids", as in Tiled) pick a frame of a tileset's sprite sheet,
+ * or a plain colour for shape-only games. Maps come from simple arrays
+ * (createTilemap) or Tiled JSON exports (parseTiledMap).
+ *
+ * Collision treats tiles as solid when their layer collides or the tile is
+ * marked solid; moveRect/moveEntity resolve movement one axis at a time and
+ * never tunnel through tiles, however far they move in a step.
+ */
+
+// Tiled stores flips in the top bits of a gid (diagonal flips - rotations - aren't drawn)
+const FLIP_X = 0x80000000;
+const FLIP_Y = 0x40000000;
+const GID_MASK = 0x1fffffff;
+
+// Keeps edges that touch a tile boundary out of the next tile
+const EPSILON = 1e-6;
+
+/**
+ * A tileset: gids from firstGid on are frames of the sheet, in order
+ */
+export interface Tileset {
+  name?: string;
+  /** First gid of this tileset (1 for a map's first tileset) */
+  firstGid: number;
+  /** Null draws the tiles' colours only */
+  sheet: SpriteSheet | null;
+}
+
+/**
+ * One frame of an animated tile
+ */
+export interface TileAnimationFrame {
+  /** Gid to show */
+  tile: number;
+  /** Milliseconds */
+  duration: number;
+}
+
+/**
+ * Per-tile settings, by gid
+ */
+export interface TileDefinition {
+  solid?: boolean;
+  /** Fill colour when there's no sprite (or no tileset) for the tile */
+  color?: string;
+  animation?: TileAnimationFrame[];
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * A layer of tiles
+ */
+export interface TileLayer {
+  name: string;
+  /** Columns */
+  width: number;
+  /** Rows */
+  height: number;
+  /** Row-major gids (with Tiled flip bits, if any) */
+  data: number[];
+  visible: boolean;
+  /** 0-1 */
+  opacity: number;
+  /** Every non-empty tile in the layer is solid */
+  collides: boolean;
+  /** Pixel offset of the layer */
+  offsetX: number;
+  offsetY: number;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * A point or shape from an object layer (spawn points, triggers, doors)
+ */
+export interface TilemapObject {
+  id: number;
+  name: string;
+  type: string;
+  layer: string;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  properties: Record<string, unknown>;
+}
+
+/**
+ * Which sides a movement was blocked on
+ */
+export interface TileMoveResult {
+  x: number;
+  y: number;
+  left: boolean;
+  right: boolean;
+  /** Blocked moving up (hit a ceiling) */
+  up: boolean;
+  /** Blocked moving down (landed) */
+  down: boolean;
+}
+
+/**
+ * A tile at a grid position
+ */
+export interface TileHit {
+  col: number;
+  row: number;
+  gid: number;
+  layer: string;
+}
+
+/**
+ * Options for rendering a tilemap
+ */
+export interface TilemapRenderOptions {
+  /** Layer names to draw, in order (default: all visible layers) */
+  layers?: string[];
+}
+
+/**
+ * A tile map
+ */
+export interface Tilemap {
+  readonly columns: number;
+  readonly rows: number;
+  readonly tileWidth: number;
+  readonly tileHeight: number;
+  /** Size in pixels */
+  readonly width: number;
+  readonly height: number;
+  readonly layers: TileLayer[];
+  readonly tilesets: Tileset[];
+  readonly objects: TilemapObject[];
+  /** Out-of-map tiles count as solid (keeps players in the level) */
+  solidEdges: boolean;
+
+  layer: (name: string) => TileLayer | undefined;
+  /** Gid at a grid position, without flip bits (0 = empty or off the map) */
+  getTile: (col: number, row: number, layer?: string | number) => number;
+  setTile: (col: number, row: number, gid: number, layer?: string | number) => void;
+  /** Settings of a gid */
+  tile: (gid: number) => TileDefinition | undefined;
+  isSolid: (col: number, row: number) => boolean;
+
+  worldToTile: (point: Vector2D) => { col: number; row: number };
+  tileToWorld: (col: number, row: number) => Rect;
+  /** Non-empty tiles overlapping a rect (all layers unless one is given) */
+  tilesInRect: (rect: Rect, layer?: string | number) => TileHit[];
+  /** Whether a rect overlaps any solid tile */
+  collides: (rect: Rect) => boolean;
+  /** Move a rect by (dx, dy), stopping at solid tiles */
+  moveRect: (rect: Rect, dx: number, dy: number) => TileMoveResult;
+  /** Move an entity by its velocity (px/s), stopping at solid tiles and zeroing blocked velocity */
+  moveEntity: (entity: Entity, deltaTime: number) => TileMoveResult;
+
+  /** Advance animated tiles (call in the game loop) */
+  update: (deltaTime: number) => void;
+  /** Draw the tiles inside `visible` (e.g. camera.visibleBounds(); default: the whole map) */
+  render: (ctx: CanvasRenderingContext2D, visible?: Rect, options?: TilemapRenderOptions) => void;
+}
+
+/**
+ * Layer data for createTilemap - a flat row-major array (with width) or rows
+ */
+export interface TileLayerData {
+  name?: string;
+  data: number[] | number[][];
+  /** Columns, for flat data */
+  width?: number;
+  visible?: boolean;
+  opacity?: number;
+  collides?: boolean;
+  offsetX?: number;
+  offsetY?: number;
+  properties?: Record<string, unknown>;
+}
+
+/**
+ * Options for createTilemap
+ */
+export interface TilemapOptions {
+  tileWidth: number;
+  tileHeight: number;
+  layers: TileLayerData[];
+  tilesets?: Tileset[];
+  /** Per-gid settings */
+  tiles?: Record<number, TileDefinition>;
+  objects?: TilemapObject[];
+  solidEdges?: boolean;
+}
+
+/**
+ * Create a tilemap from arrays
+ *
+ * Usage:
+ * ```
+ * const map = createTilemap({
+ *   tileWidth: 32,
+ *   tileHeight: 32,
+ *   tilesets: [{ firstGid: 1, sheet: tiles }],      // or omit and use colours
+ *   tiles: { 1: { solid: true, color: '#2a2a4e' }, 5: { animation: [{ tile: 5, duration: 200 }, { tile: 6, duration: 200 }] } },
+ *   layers: [{
+ *     name: 'ground',
+ *     data: [
+ *       [0, 0, 0, 0],
+ *       [0, 0, 5, 0],
+ *       [1, 1, 1, 1],
+ *     ],
+ *   }],
+ * });
+ *
+ * // In game loop
+ * map.update(deltaTime);
+ * const hit = map.moveEntity(player, deltaTime);
+ * if (hit.down) onGround = true;
+ * map.render(ctx, camera.visibleBounds());
+ * ```
+ */
+export function createTilemap(options: TilemapOptions): Tilemap {
+  const { tileWidth, tileHeight } = options;
+  const tilesets = [...(options.tilesets ?? [])].sort((a, b) => a.firstGid - b.firstGid);
+  const tiles = options.tiles ?? {};
+  const objects = options.objects ?? [];
+
+  const layers: TileLayer[] = options.layers.map((layer, i) => {
+    const rows = Array.isArray(layer.data[0]) ? (layer.data as number[][]) : null;
+    const width = rows ? Math.max(0, ...rows.map(row => row.length)) : layer.width ?? 0;
+    const data = rows
+      ? rows.flatMap(row => Array.from({ length: width }, (_, col) => row[col] ?? 0))
+      : [...(layer.data as number[])];
+    if (!rows && !layer.width) console.warn(`Tile layer "${layer.name ?? i}" has flat data but no width`);
+    return {
+      name: layer.name ?? `layer${i}`,
+      width,
+      height: width > 0 ? Math.ceil(data.length / width) : 0,
+      data,
+      visible: layer.visible ?? true,
+      opacity: layer.opacity ?? 1,
+      collides: layer.collides ?? false,
+      offsetX: layer.offsetX ?? 0,
+      offsetY: layer.offsetY ?? 0,
+      properties: layer.properties ?? {},
+    };
+  });
+
+  const columns = Math.max(0, ...layers.map(layer => layer.width));
+  const rows = Math.max(0, ...layers.map(layer => layer.height));
+  let elapsed = 0;
+
+  const findLayer = (layer: string | number = 0) =>
+    typeof layer === 'number' ? layers[layer] : layers.find(l => l.name === layer);
+
+  const rawTile = (layer: TileLayer, col: number, row: number) => {
+    if (col < 0 || row < 0 || col >= layer.width || row >= layer.height) return 0;
+    return layer.data[row * layer.width + col] ?? 0;
+  };
+
+  const solidGid = (layer: TileLayer, gid: number) =>
+    gid !== 0 && (layer.collides || !!tiles[gid]?.solid);
+
+  const isSolid = (col: number, row: number) => {
+    if (col < 0 || row < 0 || col >= columns || row >= rows) return map.solidEdges;
+    return layers.some(layer => solidGid(layer, (rawTile(layer, col, row) & GID_MASK) >>> 0));
+  };
+
+  const colOf = (x: number) => Math.floor(x / tileWidth);
+  const rowOf = (y: number) => Math.floor(y / tileHeight);
+
+  // Any solid tile in a column between two rows (inclusive)?
+  const solidInColumn = (col: number, top: number, bottom: number) => {
+    for (let row = top; row <= bottom; row++) if (isSolid(col, row)) return true;
+    return false;
+  };
+  const solidInRow = (row: number, left: number, right: number) => {
+    for (let col = left; col <= right; col++) if (isSolid(col, row)) return true;
+    return false;
+  };
+
+  const moveRect = (rect: Rect, dx: number, dy: number): TileMoveResult => {
+    let { x, y } = rect;
+    const { width, height } = rect;
+    const result = { x, y, left: false, right: false, up: false, down: false };
+
+    // Horizontal first: sweep the columns the leading edge passes
+    if (dx !== 0) {
+      const top = rowOf(y + EPSILON);
+      const bottom = rowOf(y + height - EPSILON);
+      if (dx > 0) {
+        const from = colOf(x + width - EPSILON) + 1;
+        const to = colOf(x + width + dx - EPSILON);
+        x += dx;
+        for (let col = from; col <= to; col++) {
+          if (solidInColumn(col, top, bottom)) {
+            x = col * tileWidth - width;
+            result.right = true;
+            break;
+          }
+        }
+      } else {
+        const from = colOf(x + EPSILON) - 1;
+        const to = colOf(x + dx + EPSILON);
+        x += dx;
+        for (let col = from; col >= to; col--) {
+          if (solidInColumn(col, top, bottom)) {
+            x = (col + 1) * tileWidth;
+            result.left = true;
+            break;
+          }
+        }
+      }
+    }
+
+    // Then vertical, from the resolved x
+    if (dy !== 0) {
+      const left = colOf(x + EPSILON);
+      const right = colOf(x + width - EPSILON);
+      if (dy > 0) {
+        const from = rowOf(y + height - EPSILON) + 1;
+        const to = rowOf(y + height + dy - EPSILON);
+        y += dy;
+        for (let row = from; row <= to; row++) {
+          if (solidInRow(row, left, right)) {
+            y = row * tileHeight - height;
+            result.down = true;
+            break;
+          }
+        }
+      } else {
+        const from = rowOf(y + EPSILON) - 1;
+        const to = rowOf(y + dy + EPSILON);
+        y += dy;
+        for (let row = from; row >= to; row--) {
+          if (solidInRow(row, left, right)) {
+            y = (row + 1) * tileHeight;
+            result.up = true;
+            break;
+          }
+        }
+      }
+    }
+
+    result.x = x;
+    result.y = y;
+    return result;
+  };
+
+  // Current gid of an animated tile
+  const animatedGid = (gid: number) => {
+    const animation = tiles[gid]?.animation;
+    if (!animation || animation.length === 0) return gid;
+    const total = animation.reduce((sum, frame) => sum + frame.duration, 0);
+    if (total <= 0) return gid;
+    let time = elapsed % total;
+    for (const frame of animation) {
+      if (time < frame.duration) return frame.tile;
+      time -= frame.duration;
+    }
+    return gid;
+  };
+
+  const tilesetOf = (gid: number) => {
+    for (let i = tilesets.length - 1; i >= 0; i--) {
+      if (tilesets[i].firstGid <= gid) return tilesets[i];
+    }
+    return undefined;
+  };
+
+  const drawTile = (ctx: CanvasRenderingContext2D, raw: number, x: number, y: number) => {
+    const gid = animatedGid((raw & GID_MASK) >>> 0);
+    const tileset = tilesetOf(gid);
+    const sheet = tileset?.sheet;
+    const frameName = sheet?.names[gid - (tileset?.firstGid ?? 1)];
+    const frame = frameName !== undefined ? sheet?.frames[frameName] : undefined;
+
+    if (sheet && frameName !== undefined && frame) {
+      const flipX = (raw & FLIP_X) !== 0;
+      const flipY = (raw & FLIP_Y) !== 0;
+      // Tiles bigger than the grid stand on their cell's bottom-left corner, as in Tiled
+      if (!flipX && !flipY && frame.sourceWidth === frame.width && frame.sourceHeight === frame.height) {
+        ctx.drawImage(sheet.image, frame.x, frame.y, frame.width, frame.height, x, y + tileHeight - frame.height, frame.width, frame.height);
+      } else {
+        drawSprite(ctx, sheet, frameName, x, y + tileHeight, { anchor: { x: 0, y: 1 }, flipX, flipY });
+      }
+      return;
+    }
+
+    const color = tiles[gid]?.color;
+    if (color) {
+      ctx.fillStyle = color;
+      ctx.fillRect(x, y, tileWidth, tileHeight);
+    }
+  };
+
+  const map: Tilemap = {
+    get columns() {
+      return columns;
+    },
+    get rows() {
+      return rows;
+    },
+    tileWidth,
+    tileHeight,
+    get width() {
+      return columns * tileWidth;
+    },
+    get height() {
+      return rows * tileHeight;
+    },
+    layers,
+    tilesets,
+    objects,
+    solidEdges: options.solidEdges ?? false,
+
+    layer: name => layers.find(l => l.name === name),
+    getTile: (col, row, layer) => {
+      const target = findLayer(layer);
+      return target ? (rawTile(target, col, row) & GID_MASK) >>> 0 : 0;
+    },
+    setTile: (col, row, gid, layer) => {
+      const target = findLayer(layer);
+      if (!target || col < 0 || row < 0 || col >= target.width || row >= target.height) return;
+      target.data[row * target.width + col] = gid;
+    },
+    tile: gid => tiles[gid],
+    isSolid,
+
+    worldToTile: point => ({ col: colOf(point.x), row: rowOf(point.y) }),
+    tileToWorld: (col, row) => ({ x: col * tileWidth, y: row * tileHeight, width: tileWidth, height: tileHeight }),
+    tilesInRect: (rect, layer) => {
+      const targets = layer === undefined ? layers : [findLayer(layer)].filter((l): l is TileLayer => !!l);
+      const hits: TileHit[] = [];
+      const left = colOf(rect.x + EPSILON);
+      const right = colOf(rect.x + rect.width - EPSILON);
+      const top = rowOf(rect.y + EPSILON);
+      const bottom = rowOf(rect.y + rect.height - EPSILON);
+      targets.forEach(target => {
+        for (let row = top; row <= bottom; row++) {
+          for (let col = left; col <= right; col++) {
+            const gid = (rawTile(target, col, row) & GID_MASK) >>> 0;
+            if (gid !== 0) hits.push({ col, row, gid, layer: target.name });
+          }
+        }
+      });
+      return hits;
+    },
+    collides: rect => {
+      const left = colOf(rect.x + EPSILON);
+      const right = colOf(rect.x + rect.width - EPSILON);
+      const top = rowOf(rect.y + EPSILON);
+      const bottom = rowOf(rect.y + rect.height - EPSILON);
+      for (let row = top; row <= bottom; row++) {
+        if (solidInRow(row, left, right)) return true;
+      }
+      return false;
+    },
+    moveRect,
+    moveEntity: (entity, deltaTime) => {
+      const velocity = entity.velocity ?? { x: 0, y: 0 };
+      const dt = deltaTime / 1000;
+      const result = moveRect(
+        { x: entity.position.x, y: entity.position.y, width: entity.width, height: entity.height },
+        velocity.x * dt,
+        velocity.y * dt
+      );
+      entity.position.x = result.x;
+      entity.position.y = result.y;
+      if (entity.velocity) {
+        if (result.left || result.right) entity.velocity.x = 0;
+        if (result.up || result.down) entity.velocity.y = 0;
+      }
+      return result;
+    },
+
+    update: deltaTime => {
+      elapsed += deltaTime;
+    },
+    render: (ctx, visible, renderOptions = {}) => {
+      const names = renderOptions.layers;
+      const targets = names
+        ? names.map(name => layers.find(l => l.name === name)).filter((l): l is TileLayer => !!l)
+        : layers.filter(l => l.visible);
+
+      targets.forEach(layer => {
+        const view = visible ?? { x: 0, y: 0, width: columns * tileWidth, height: rows * tileHeight };
+        // One extra column left and row below: tiles taller/wider than the grid
+        // hang up and right from their bottom-left corner into the view
+        const left = Math.max(0, colOf(view.x - layer.offsetX) - 1);
+        const top = Math.max(0, rowOf(view.y - layer.offsetY));
+        const right = Math.min(layer.width - 1, colOf(view.x + view.width - layer.offsetX));
+        const bottom = Math.min(layer.height - 1, rowOf(view.y + view.height - layer.offsetY) + 1);
+
+        const alpha = ctx.globalAlpha;
+        ctx.globalAlpha = alpha * layer.opacity;
+        for (let row = top; row <= bottom; row++) {
+          for (let col = left; col <= right; col++) {
+            const raw = layer.data[row * layer.width + col];
+            if (raw) drawTile(ctx, raw, layer.offsetX + col * tileWidth, layer.offsetY + row * tileHeight);
+          }
+        }
+        ctx.globalAlpha = alpha;
+      });
+    },
+  };
+
+  return map;
+}
+
+/**
+ * Tiled JSON map (orthogonal, embedded tilesets, uncompressed layer data)
+ */
+export interface TiledMap {
+  width: number;
+  height: number;
+  tilewidth: number;
+  tileheight: number;
+  orientation?: string;
+  layers: TiledLayer[];
+  tilesets: TiledTileset[];
+}
+
+export interface TiledProperty {
+  name: string;
+  type?: string;
+  value: unknown;
+}
+
+export interface TiledLayer {
+  name: string;
+  type: 'tilelayer' | 'objectgroup' | 'imagelayer' | 'group';
+  width?: number;
+  height?: number;
+  data?: number[] | string;
+  encoding?: string;
+  visible?: boolean;
+  opacity?: number;
+  offsetx?: number;
+  offsety?: number;
+  properties?: TiledProperty[];
+  objects?: {
+    id: number;
+    name?: string;
+    type?: string;
+    class?: string;
+    x: number;
+    y: number;
+    width?: number;
+    height?: number;
+    properties?: TiledProperty[];
+  }[];
+  layers?: TiledLayer[];
+}
+
+export interface TiledTileset {
+  firstgid: number;
+  name?: string;
+  /** External tilesets (.tsx/.json) aren't supported - embed them when exporting */
+  source?: string;
+  tiles?: {
+    id: number;
+    properties?: TiledProperty[];
+    animation?: { tileid: number; duration: number }[];
+  }[];
+}
+
+function tiledProperties(properties: TiledProperty[] = []): Record<string, unknown> {
+  const result: Record<string, unknown> = {};
+  properties.forEach(property => {
+    result[property.name] = property.value;
+  });
+  return result;
+}
+
+/**
+ * Create a tilemap from a Tiled JSON export
+ * Tileset sheets are matched by tileset name. Layers with a `collides`
+ * property are solid, as are tiles with a `solid` or `collides` property.
+ *
+ * Usage:
+ * ```
+ * const { assets } = useAssets({
+ *   sprites: { terrain: { src: '/assets/terrain.png', layout: { frameWidth: 16, frameHeight: 16 } } },
+ *   json: { level1: '/assets/levels/1.json' },
+ * });
+ * const map = parseTiledMap(assets.json.level1 as TiledMap, { terrain: assets.sprites.terrain });
+ * const spawn = map.objects.find(o => o.name === 'spawn');
+ * ```
+ */
+export function parseTiledMap(data: TiledMap, sheets: Record<string, SpriteSheet> = {}): Tilemap {
+  if (data.orientation && data.orientation !== 'orthogonal') {
+    console.warn(`Tiled map orientation "${data.orientation}" isn't supported; drawing it as orthogonal`);
+  }
+
+  const tiles: Record<number, TileDefinition> = {};
+  const tilesets: Tileset[] = data.tilesets.map(tileset => {
+    if (tileset.source) console.warn(`External tileset ${tileset.source} isn't supported; embed tilesets when exporting`);
+    (tileset.tiles ?? []).forEach(tile => {
+      const gid = tileset.firstgid + tile.id;
+      const properties = tiledProperties(tile.properties);
+      tiles[gid] = {
+        solid: properties.solid === true || properties.collides === true,
+        properties,
+        ...(tile.animation ? {
+          animation: tile.animation.map(frame => ({ tile: tileset.firstgid + frame.tileid, duration: frame.duration })),
+        } : {}),
+      };
+    });
+    return { name: tileset.name, firstGid: tileset.firstgid, sheet: (tileset.name && sheets[tileset.name]) || null };
+  });
+
+  const layers: TileLayerData[] = [];
+  const objects: TilemapObject[] = [];
+  const visit = (layer: TiledLayer, offsetX: number, offsetY: number, opacity: number) => {
+    const x = offsetX + (layer.offsetx ?? 0);
+    const y = offsetY + (layer.offsety ?? 0);
+    const alpha = opacity * (layer.opacity ?? 1);
+    const properties = tiledProperties(layer.properties);
+
+    if (layer.type === 'group') {
+      (layer.layers ?? []).forEach(child => visit(child, x, y, alpha));
+    } else if (layer.type === 'tilelayer') {
+      if (typeof layer.data === 'string' || layer.encoding === 'base64') {
+        console.warn(`Tile layer "${layer.name}" is compressed or base64; export with CSV layer format`);
+        return;
+      }
+      layers.push({
+        name: layer.name,
+        data: layer.data ?? [],
+        width: layer.width ?? data.width,
+        visible: layer.visible ?? true,
+        opacity: alpha,
+        collides: properties.collides === true,
+        offsetX: x,
+        offsetY: y,
+        properties,
+      });
+    } else if (layer.type === 'objectgroup') {
+      (layer.objects ?? []).forEach(object => objects.push({
+        id: object.id,
+        name: object.name ?? '',
+        type: object.type ?? object.class ?? '',
+        layer: layer.name,
+        x: object.x + x,
+        y: object.y + y,
+        width: object.width ?? 0,
+        height: object.height ?? 0,
+        properties: tiledProperties(object.properties),
+      }));
+    }
+  };
+  data.layers.forEach(layer => visit(layer, 0, 0, 1));
+
+  return createTilemap({
+    tileWidth: data.tilewidth,
+    tileHeight: data.tileheight,
+    layers,
+    tilesets,
+    tiles,
+    objects,
+  });
+}
@@ -0,0 +1,208 @@
+/**
+ * Game time vs wall time
+ *
+ * The game loop measures real (wall-clock) frame deltas; the time controller
+ * turns them into game deltas by applying a global time scale, timed
+ * slow-motion and hit-stop. Named layers can use their own scale or ignore
+ * global slow-mo entirely (UI, particles).
+ */
+
+/**
+ * Options for a named time layer
+ */
+export interface TimeLayerOptions {
+  /** Layer-specific multiplier (applied on top of the global scale) */
+  scale?: number;
+  /** Ignore global time scale, slow-motion and hit-stop */
+  ignoreTimeScale?: boolean;
+}
+
+/**
+ * Time controller exposed by useGameLoop
+ */
+export interface TimeController {
+  /** Global time scale (1 = normal, 0.5 = half speed, 0 = frozen) */
+  scale: number;
+  /** Wall-clock delta of the current frame in ms */
+  readonly realDelta: number;
+  /** Game delta of the current frame in ms (scaled, 0 during hit-stop) */
+  readonly delta: number;
+  /** Total game time elapsed in ms */
+  readonly elapsed: number;
+  /** Whether a hit-stop is currently freezing game time */
+  readonly isHitStopped: boolean;
+  /** Whether a timed slow-motion is active */
+  readonly isSlowMotion: boolean;
+  /** Scale time for a duration (real ms), then return to the current scale */
+  slowMotion: (scale: number, duration: number) => void;
+  /** Freeze game time for a duration (real ms); rendering keeps running */
+  hitStop: (duration: number) => void;
+  /** Configure a named layer */
+  setLayer: (name: string, options: TimeLayerOptions) => void;
+  /** Delta of the current frame for a named layer */
+  layerDelta: (name: string) => number;
+  /** Advance time by a wall-clock delta (called by the game loop) */
+  tick: (realDelta: number) => number;
+  /** Clear slow-motion, hit-stop and elapsed time */
+  reset: () => void;
+}
+
+/** Built-in layers: 'game' follows global time, 'ui' runs in real time */
+const DEFAULT_LAYERS: Record<string, TimeLayerOptions> = {
+  game: { scale: 1 },
+  ui: { ignoreTimeScale: true },
+};
+
+/**
+ * Create a time controller
+ */
+export function createTimeController(): TimeController {
+  const layers: Record<string, TimeLayerOptions> = { ...DEFAULT_LAYERS };
+  let realDelta = 0;
+  let delta = 0;
+  let elapsed = 0;
+  let hitStopRemaining = 0;
+  let slowMoScale = 1;
+  let slowMoRemaining = 0;
+
+  const controller: TimeController = {
+    scale: 1,
+
+    get realDelta() {
+      return realDelta;
+    },
+    get delta() {
+      return delta;
+    },
+    get elapsed() {
+      return elapsed;
+    },
+    get isHitStopped() {
+      return hitStopRemaining > 0;
+    },
+    get isSlowMotion() {
+      return slowMoRemaining > 0;
+    },
+
+    slowMotion(scale, duration) {
+      slowMoScale = Math.max(0, scale);
+      slowMoRemaining = duration;
+    },
+
+    hitStop(duration) {
+      // Overlapping hits extend the freeze rather than stacking
+      hitStopRemaining = Math.max(hitStopRemaining, duration);
+    },
+
+    setLayer(name, options) {
+      layers[name] = { ...layers[name], ...options };
+    },
+
+    layerDelta(name) {
+      const layer = layers[name];
+      if (!layer) return delta;
+      const base = layer.ignoreTimeScale ? realDelta : delta;
+      return base * (layer.scale ?? 1);
+    },
+
+    tick(frameDelta) {
+      realDelta = frameDelta;
+
+      if (hitStopRemaining > 0) {
+        hitStopRemaining = Math.max(0, hitStopRemaining - frameDelta);
+        delta = 0;
+        return delta;
+      }
+
+      let scale = Math.max(0, controller.scale);
+      if (slowMoRemaining > 0) {
+        slowMoRemaining = Math.max(0, slowMoRemaining - frameDelta);
+        scale *= slowMoScale;
+      }
+
+      delta = frameDelta * scale;
+      elapsed += delta;
+      return delta;
+    },
+
+    reset() {
+      controller.scale = 1;
+      realDelta = 0;
+      delta = 0;
+      elapsed = 0;
+      hitStopRemaining = 0;
+      slowMoScale = 1;
+      slowMoRemaining = 0;
+    },
+  };
+
+  return controller;
+}
+
+/**
+ * Game-loop steps
+ *
+ * Every simulation step (one frame in variable-step mode, one `update` in
+ * fixed-step mode) advances a global tick counter. Input stores stamp edges
+ * with the tick they belong to, so justPressed/justReleased are visible for
+ * exactly one step no matter who reads them first.
+ */
+
+let gameTick = 0;
+let skipped = false;
+let skipRequested = false;
+const tickListeners = new Set<() => void>();
+const beforeTickListeners = new Set<(skipping: boolean) => void>();
+
+/** Number of the current game-loop step */
+export function getGameTick(): number {
+  return gameTick;
+}
+
+/** Whether the current step is skipped (no update runs, e.g. the step after a resume) */
+export function isGameTickSkipped(): boolean {
+  return skipped;
+}
+
+/**
+ * Run a listener at the start of every game-loop step
+ * Returns an unsubscribe function.
+ */
+export function onGameTick(listener: () => void): () => void {
+  tickListeners.add(listener);
+  return () => {
+    tickListeners.delete(listener);
+  };
+}
+
+/**
+ * Run a listener just before every game-loop step starts
+ * Input fed in here (e.g. by a replay) is visible in the step that follows.
+ * `skipping` is true when the step will be skipped anyway.
+ * Returns an unsubscribe function.
+ */
+export function onBeforeGameTick(listener: (skipping: boolean) => void): () => void {
+  beforeTickListeners.add(listener);
+  return () => {
+    beforeTickListeners.delete(listener);
+  };
+}
+
+/** Skip the step about to start (call from an onBeforeGameTick listener) */
+export function skipGameTick(): void {
+  skipRequested = true;
+}
+
+/**
+ * Start the next game-loop step (called by useGameLoop)
+ * Returns false when the step is skipped and no update should run.
+ */
+export function advanceGameTick(skip = false): boolean {
+  skipRequested = skip;
+  beforeTickListeners.forEach(listener => listener(skip));
+  skipped = skipRequested;
+  skipRequested = false;
+  gameTick++;
+  tickListeners.forEach(listener => listener());
+  return !skipped;
+}
@@ -10,6 +10,11 @@ export enum GameState {
   GAME_OVER = 'game_over',
 }
 
+/**
+ * A built-in state or a custom one added via useGameState({ states })
+ */
+export type GameStateId = GameState | (string & {});
+
 /**
  * Result returned when game ends
  * Extend metadata for custom game-specific data
@@ -51,6 +56,29 @@ export const DEFAULT_CONFIG: GameConfig = {
   soundEnabled: true,
 };
 
+/**
+ * Level definition for the progression system
+ */
+export interface LevelDefinition {
+  /** Stable id used for saved progress (don't rename once shipped) */
+  id: string;
+  /** Display name */
+  name?: string;
+  /** Level scores needed for 1, 2 and 3 stars */
+  starThresholds?: [number, number, number];
+}
+
+/**
+ * Saved progress for a single level
+ */
+export interface LevelProgress {
+  unlocked: boolean;
+  completed: boolean;
+  bestScore: number;
+  /** Best star rating (0-3) */
+  stars: number;
+}
+
 /**
  * Vector2D for positions, velocities, etc.
  */
@@ -81,13 +109,65 @@ export interface Entity {
   active: boolean;
 }
 
+/**
+ * Version of the game <-> host postMessage protocol
+ * Sent in GAME_READY so the host can detect incompatible games
+ */
+export const PROTOCOL_VERSION = 1;
+
 /**
  * Messages sent to parent frame (fishtank)
  */
 export type GameMessage =
-  | { type: 'GAME_READY' }
+  | { type: 'GAME_READY'; protocolVersion: number }
   | { type: 'GAME_START' }
   | { type: 'GAME_PAUSE' }
   | { type: 'GAME_RESUME' }
   | { type: 'GAME_OVER'; result: GameResult }
-  | { type: 'SCORE_UPDATE'; score: number };
+  | { type: 'SCORE_UPDATE'; score: number }
+  | { type: 'LEVEL_START'; level: number; levelId: string }
+  | { type: 'LEVEL_COMPLETE'; level: number; levelId: string; score: number; stars: number; bestScore: number }
+  | { type: 'GAME_STATE'; state: GameStateId; score: number; highScore: number; muted: boolean; volume: number }
+  | { type: 'COMMAND_ACK'; command: HostCommand['type']; id?: string; ok: boolean; error?: string }
+  | { type: 'LEADERBOARD_REQUEST'; table: string }
+  | { type: 'LEADERBOARD_SUBMIT'; table: string; entry: LeaderboardEntry }
+  | { type: 'ACHIEVEMENT_UNLOCKED'; achievement: AchievementInfo; unlockedAt: number };
+
+/**
+ * Commands sent from parent frame (fishtank) to the game
+ * Include an `id` to match the COMMAND_ACK reply
+ */
+export type HostCommand =
+  | { type: 'START'; id?: string }
+  | { type: 'PAUSE'; id?: string }
+  | { type: 'RESUME'; id?: string }
+  | { type: 'RESET'; id?: string }
+  | { type: 'MUTE'; muted: boolean; id?: string }
+  | { type: 'SET_VOLUME'; volume: number; id?: string }
+  | { type: 'REQUEST_STATE'; id?: string }
+  | { type: 'LEADERBOARD_DATA'; table: string; entries: LeaderboardEntry[]; id?: string };
+
+/**
+ * A leaderboard row
+ */
+export interface LeaderboardEntry {
+  /** Arcade-style initials (1-3 characters) */
+  initials: string;
+  score: number;
+  /** Unix timestamp (ms) */
+  date: number;
+  level?: number;
+  /** Run metadata from GameResult */
+  metadata?: Record<string, unknown>;
+}
+
+/**
+ * Public description of an achievement
+ */
+export interface AchievementInfo {
+  id: string;
+  name: string;
+  description?: string;
+  /** Hide name/description until unlocked */
+  hidden?: boolean;
+}
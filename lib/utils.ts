@@ -1,4 +1,5 @@
 import { Vector2D, Rect, Entity } from './types';
+import { RandomSource, mathRandom } from './random';
 
 /**
  * Collision Detection Utilities
@@ -63,19 +64,25 @@ export function lerp(start: number, end: number, t: number): number {
   return start + (end - start) * t;
 }
 
+/**
+ * Random helpers - pass a seeded Random (lib/random) as `rng` for
+ * reproducible results; Math.random is used otherwise. Random also has
+ * weighted choice, shuffle and gaussian.
+ */
+
 /** Get a random number between min and max */
-export function random(min: number, max: number): number {
-  return Math.random() * (max - min) + min;
+export function random(min: number, max: number, rng: RandomSource = mathRandom): number {
+  return rng.next() * (max - min) + min;
 }
 
 /** Get a random integer between min and max (inclusive) */
-export function randomInt(min: number, max: number): number {
-  return Math.floor(random(min, max + 1));
+export function randomInt(min: number, max: number, rng: RandomSource = mathRandom): number {
+  return Math.floor(random(min, max + 1, rng));
 }
 
 /** Get a random item from an array */
-export function randomItem<T>(array: T[]): T {
-  return array[Math.floor(Math.random() * array.length)];
+export function randomItem<T>(array: readonly T[], rng: RandomSource = mathRandom): T {
+  return array[Math.floor(rng.next() * array.length)];
 }
 
 /**
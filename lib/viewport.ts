@@ -0,0 +1,266 @@
+import { Vector2D } from './types';
+
+/**
+ * Coordinate spaces
+ *
+ * - screen: CSS pixels of the page (MouseEvent.clientX/clientY)
+ * - canvas: logical canvas pixels, 0..width x 0..height, whatever the
+ *   device pixel ratio, CSS scale or letterboxing
+ * - world: game space, mapped to canvas by the world transform (a camera)
+ *
+ * useCanvas owns one viewport per canvas and keeps it measured; pointer
+ * hooks look it up with getViewport(element) so input lands exactly where
+ * things are drawn.
+ */
+
+/**
+ * 2D affine transform, same layout as CanvasRenderingContext2D.setTransform
+ * (x' = a*x + c*y + e, y' = b*x + d*y + f)
+ */
+export interface Transform2D {
+  a: number;
+  b: number;
+  c: number;
+  d: number;
+  e: number;
+  f: number;
+}
+
+export const IDENTITY_TRANSFORM: Readonly<Transform2D> = { a: 1, b: 0, c: 0, d: 1, e: 0, f: 0 };
+
+/**
+ * Where the canvas content is on screen
+ */
+export interface ScreenRect {
+  left: number;
+  top: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * Coordinate transform service for one canvas
+ */
+export interface Viewport {
+  /** Logical canvas width */
+  readonly width: number;
+  /** Logical canvas height */
+  readonly height: number;
+  /** Backing-store pixels per logical pixel (devicePixelRatio) */
+  readonly pixelRatio: number;
+  readonly element: HTMLElement | null;
+  /** World-to-canvas transform (identity unless a camera sets it) */
+  readonly worldTransform: Readonly<Transform2D>;
+  /** On-screen box of the canvas content, after CSS scaling and letterboxing */
+  screenRect: () => ScreenRect;
+  /** Screen pixels per canvas pixel */
+  screenScale: () => Vector2D;
+
+  screenToCanvas: (point: Vector2D) => Vector2D;
+  canvasToScreen: (point: Vector2D) => Vector2D;
+  canvasToWorld: (point: Vector2D) => Vector2D;
+  worldToCanvas: (point: Vector2D) => Vector2D;
+  screenToWorld: (point: Vector2D) => Vector2D;
+  worldToScreen: (point: Vector2D) => Vector2D;
+
+  /** Change the logical size */
+  resize: (width: number, height: number) => void;
+  setPixelRatio: (ratio: number) => void;
+  /** Set (or reset with null) the world-to-canvas transform */
+  setWorldTransform: (transform: Transform2D | null) => void;
+  /** Re-read the element's borders, padding and object-fit (after style changes) */
+  measure: () => void;
+  /** Track an element; getViewport(element) returns this viewport. Returns a detach function */
+  attach: (element: HTMLElement) => () => void;
+}
+
+/** Apply a transform to a point */
+export function applyTransform(t: Readonly<Transform2D>, point: Vector2D): Vector2D {
+  return {
+    x: t.a * point.x + t.c * point.y + t.e,
+    y: t.b * point.x + t.d * point.y + t.f,
+  };
+}
+
+/** Combine transforms: the result applies `second`, then `first` (like ctx.transform(first) then ctx.transform(second)) */
+export function multiplyTransform(first: Readonly<Transform2D>, second: Readonly<Transform2D>): Transform2D {
+  return {
+    a: first.a * second.a + first.c * second.b,
+    b: first.b * second.a + first.d * second.b,
+    c: first.a * second.c + first.c * second.d,
+    d: first.b * second.c + first.d * second.d,
+    e: first.a * second.e + first.c * second.f + first.e,
+    f: first.b * second.e + first.d * second.f + first.f,
+  };
+}
+
+/** Invert a transform (identity if it isn't invertible) */
+export function invertTransform(t: Readonly<Transform2D>): Transform2D {
+  const det = t.a * t.d - t.b * t.c;
+  if (!det) return { ...IDENTITY_TRANSFORM };
+  return {
+    a: t.d / det,
+    b: -t.b / det,
+    c: -t.c / det,
+    d: t.a / det,
+    e: (t.c * t.f - t.d * t.e) / det,
+    f: (t.b * t.e - t.a * t.f) / det,
+  };
+}
+
+// Viewports by the element they're attached to
+const viewports = new WeakMap<Element, Viewport>();
+
+/**
+ * The viewport attached to an element, if any
+ */
+export function getViewport(element: Element | null | undefined): Viewport | null {
+  return (element && viewports.get(element)) || null;
+}
+
+interface ElementBox {
+  /** Border + padding, in untransformed CSS px */
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  objectFit: string;
+}
+
+/**
+ * Create a viewport
+ *
+ * Usage:
+ * ```
+ * const viewport = createViewport(800, 600);
+ * viewport.attach(canvas);
+ * const p = viewport.screenToCanvas({ x: e.clientX, y: e.clientY });
+ * ```
+ */
+export function createViewport(width: number, height: number): Viewport {
+  let element: HTMLElement | null = null;
+  let box: ElementBox = { left: 0, top: 0, right: 0, bottom: 0, objectFit: 'fill' };
+  let pixelRatio = 1;
+  let worldTransform: Transform2D = { ...IDENTITY_TRANSFORM };
+  let inverseWorld: Transform2D = { ...IDENTITY_TRANSFORM };
+
+  const measure = () => {
+    if (!element || typeof window === 'undefined') return;
+    const style = window.getComputedStyle(element);
+    const px = (value: string) => parseFloat(value) || 0;
+    box = {
+      left: px(style.borderLeftWidth) + px(style.paddingLeft),
+      top: px(style.borderTopWidth) + px(style.paddingTop),
+      right: px(style.borderRightWidth) + px(style.paddingRight),
+      bottom: px(style.borderBottomWidth) + px(style.paddingBottom),
+      objectFit: style.objectFit || 'fill',
+    };
+  };
+
+  const screenRect = (): ScreenRect => {
+    if (!element) return { left: 0, top: 0, width, height };
+
+    // The bounding rect includes CSS transforms; offset sizes don't
+    const rect = element.getBoundingClientRect();
+    const scaleX = element.offsetWidth ? rect.width / element.offsetWidth : 1;
+    const scaleY = element.offsetHeight ? rect.height / element.offsetHeight : 1;
+    const left = rect.left + box.left * scaleX;
+    const top = rect.top + box.top * scaleY;
+    const boxWidth = rect.width - (box.left + box.right) * scaleX;
+    const boxHeight = rect.height - (box.top + box.bottom) * scaleY;
+
+    // object-fit letterboxes the canvas inside its box (object-position: center)
+    const fit = box.objectFit;
+    if (fit === 'fill' || boxWidth <= 0 || boxHeight <= 0) {
+      return { left, top, width: boxWidth, height: boxHeight };
+    }
+    const cover = Math.max(boxWidth / width, boxHeight / height);
+    const contain = Math.min(boxWidth / width, boxHeight / height);
+    // A canvas's intrinsic size is its backing store (width * pixelRatio)
+    const natural = pixelRatio * Math.min(scaleX, scaleY);
+    const scale =
+      fit === 'cover' ? cover
+        : fit === 'none' ? natural
+          : fit === 'scale-down' ? Math.min(contain, natural)
+            : contain;
+    const contentWidth = width * scale;
+    const contentHeight = height * scale;
+    return {
+      left: left + (boxWidth - contentWidth) / 2,
+      top: top + (boxHeight - contentHeight) / 2,
+      width: contentWidth,
+      height: contentHeight,
+    };
+  };
+
+  const screenToCanvas = (point: Vector2D): Vector2D => {
+    const rect = screenRect();
+    return {
+      x: (point.x - rect.left) * (width / (rect.width || 1)),
+      y: (point.y - rect.top) * (height / (rect.height || 1)),
+    };
+  };
+
+  const canvasToScreen = (point: Vector2D): Vector2D => {
+    const rect = screenRect();
+    return {
+      x: rect.left + point.x * (rect.width / width),
+      y: rect.top + point.y * (rect.height / height),
+    };
+  };
+
+  const canvasToWorld = (point: Vector2D) => applyTransform(inverseWorld, point);
+  const worldToCanvas = (point: Vector2D) => applyTransform(worldTransform, point);
+
+  const viewport: Viewport = {
+    get width() {
+      return width;
+    },
+    get height() {
+      return height;
+    },
+    get pixelRatio() {
+      return pixelRatio;
+    },
+    get element() {
+      return element;
+    },
+    get worldTransform() {
+      return worldTransform;
+    },
+    screenRect,
+    screenScale: () => {
+      const rect = screenRect();
+      return { x: rect.width / width, y: rect.height / height };
+    },
+    screenToCanvas,
+    canvasToScreen,
+    canvasToWorld,
+    worldToCanvas,
+    screenToWorld: point => canvasToWorld(screenToCanvas(point)),
+    worldToScreen: point => canvasToScreen(worldToCanvas(point)),
+    resize: (w, h) => {
+      width = w;
+      height = h;
+    },
+    setPixelRatio: ratio => {
+      pixelRatio = ratio;
+    },
+    setWorldTransform: transform => {
+      worldTransform = { ...(transform ?? IDENTITY_TRANSFORM) };
+      inverseWorld = invertTransform(worldTransform);
+    },
+    measure,
+    attach: target => {
+      element = target;
+      viewports.set(target, viewport);
+      measure();
+      return () => {
+        if (viewports.get(target) === viewport) viewports.delete(target);
+        if (element === target) element = null;
+      };
+    },
+  };
+
+  return viewport;
+}